@@ -1,8 +1,9 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   Github,
   FolderOpen,
+  FolderGit2,
   FileText,
   Terminal,
   Download,
@@ -17,11 +18,45 @@ import {
   Package,
   X,
   Copy,
-  Check
+  Check,
+  Plus,
+  Trash2,
+  History,
+  GitCompare,
+  KeyRound,
+  GitCommitVertical,
+  Pencil,
+  Save,
+  Undo2,
+  Search,
+  RotateCcw,
+  Eye,
+  Upload,
+  SlidersHorizontal,
+  CircleX,
+  Globe
 } from 'lucide-react';
 import { gitService, GitService } from './services/gitService';
+import { WorkerErrorCode } from './services/workerProtocol';
 import { explainCode, summarizeRepo } from './services/geminiService';
-import { FileNode, LogEntry, RepoState } from './types';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ChangesPanel } from './components/ChangesPanel';
+import { CodeEditor } from './components/CodeEditor';
+import { CodeView } from './components/CodeView';
+import { SearchPanel } from './components/SearchPanel';
+import { DiffRange, DiffViewer, WORKDIR } from './components/DiffViewer';
+import { BranchPicker } from './components/BranchPicker';
+import { AuthPromptModal, CredentialManagerModal } from './components/CredentialDialogs';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { FileTooLarge, HexView, ImagePreview } from './components/BinaryView';
+import { MarkdownView } from './components/MarkdownView';
+import { SyncPlanDialog } from './components/SyncPlanDialog';
+import { SyncRulesDialog } from './components/SyncRulesDialog';
+import { ProgressBar } from './components/ProgressBar';
+import { ProxySettingsDialog } from './components/ProxySettingsDialog';
+import { formatBytes, MAX_TEXT_BYTES, TEXT_ENCODINGS } from './services/fileContent';
+import { isMarkdownPath } from './services/syntax';
+import { AuthRequest, CancellableRunner, ExtensionStatus, FileContent, FileNode, FileStatus, GitCredential, LogEntry, OperationProgress, RepoMeta, RepoState, SyncJournalSummary, SyncPlan, SyncPlanEntry } from './types';
 
 const BuildGuideModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
   const [copied, setCopied] = useState(false);
@@ -102,13 +137,52 @@ npm run build`;
   );
 };
 
+// Working-tree state shown in the file tree: git status per file plus unsaved editor buffers
+interface TreeMarks {
+  changed: Map<string, FileStatus['kind']>;
+  changedDirs: Set<string>;
+  dirty: Set<string>;
+}
+
+const statusTextClass: Record<FileStatus['kind'], string> = {
+  added: 'text-emerald-400',
+  untracked: 'text-emerald-400',
+  modified: 'text-amber-400',
+  deleted: 'text-red-400',
+};
+
+// Saving always writes UTF-8, so only complete UTF-8 text can round-trip through the editor
+const isEditable = (file: FileContent) => file.text !== null && !file.truncated && file.encoding === 'utf-8';
+
+interface FileLink {
+  repoId: string;
+  path: string;
+  line: number | null;
+}
+
+// Shareable location of a file (and optionally a line), e.g. #repo=ab12cd34&file=src%2Fmain.ts&line=42
+const fileLinkHash = ({ repoId, path, line }: FileLink) => {
+  const params = new URLSearchParams({ repo: repoId, file: path });
+  if (line) params.set('line', String(line));
+  return `#${params}`;
+};
+
+const parseFileLink = (hash: string): FileLink | null => {
+  const params = new URLSearchParams(hash.slice(1));
+  const repoId = params.get('repo');
+  const path = params.get('file');
+  if (!repoId || !path) return null;
+  return { repoId, path, line: Number(params.get('line')) || null };
+};
+
 const TreeNode: React.FC<{
   node: FileNode;
   depth?: number;
   isSelected: boolean;
+  marks: TreeMarks;
   onFileClick: (path: string, isMulti: boolean) => void;
   onContextMenu: (e: React.MouseEvent, path: string) => void;
-}> = ({ node, depth = 0, isSelected, onFileClick, onContextMenu }) => {
+}> = ({ node, depth = 0, isSelected, marks, onFileClick, onContextMenu }) => {
   const [isOpen, setIsOpen] = useState(false);
 
   const handleContextMenu = (e: React.MouseEvent) => {
@@ -128,7 +202,11 @@ const TreeNode: React.FC<{
         style={{ paddingLeft: `${depth * 1.2 + 0.5}rem` }}
       >
         <FileText className={`w-3.5 h-3.5 mr-2 shrink-0 ${isSelected ? 'text-blue-400' : 'opacity-60'}`} />
-        <span className="truncate">{node.name}</span>
+        <span className={`truncate ${marks.changed.has(node.path) ? statusTextClass[marks.changed.get(node.path)!] : ''}`}>{node.name}</span>
+        {marks.dirty.has(node.path) && <span className="ml-1.5 text-amber-300" title="Unsaved changes">●</span>}
+        {marks.changed.has(node.path) && (
+          <span className="ml-auto pl-2 text-[10px] font-bold text-zinc-500 uppercase">{marks.changed.get(node.path)![0]}</span>
+        )}
       </button>
     );
   }
@@ -148,7 +226,7 @@ const TreeNode: React.FC<{
           <ChevronRight className="w-3.5 h-3.5 mr-2 shrink-0 text-zinc-500" />
         )}
         <FolderOpen className={`w-3.5 h-3.5 mr-2 shrink-0 opacity-70 group-hover:opacity-100 ${isSelected ? 'text-blue-400' : 'text-blue-400'}`} />
-        <span className="truncate font-medium">{node.name}</span>
+        <span className={`truncate font-medium ${marks.changedDirs.has(node.path) ? 'text-amber-300/90' : ''}`}>{node.name}</span>
       </button>
       {isOpen && node.children && (
         <div className="mt-0.5">
@@ -158,6 +236,7 @@ const TreeNode: React.FC<{
               node={child}
               depth={depth + 1}
               isSelected={isSelected} // Folders can also be "selected" for sync if we want, but usually it's files
+              marks={marks}
               onFileClick={onFileClick}
               onContextMenu={onContextMenu}
             />
@@ -168,6 +247,68 @@ const TreeNode: React.FC<{
   );
 };
 
+const ACTIVE_REPO_KEY = 'gitbrowser.activeRepo';
+
+// What to try next after a clone or pull fails, for the failures that have a clear remedy
+const FETCH_ERROR_HINTS: Partial<Record<WorkerErrorCode, string>> = {
+  AUTH: 'The server refused the credentials. Check the token saved for this host in the credential manager.',
+  NETWORK: 'The server could not be reached. Check your connection, the CORS proxy setting or the extension bridge.',
+  SERVER: 'The server is having trouble. Try again later, or raise the retries in the network settings.',
+  NO_ACCESS: 'The extension bridge did not make the request. Install or update it, or approve the host in its window.',
+};
+
+const RepoSwitcher: React.FC<{
+  repos: RepoMeta[];
+  activeRepoId: string | null;
+  disabled: boolean;
+  onSelect: (repoId: string | null) => void;
+  onRemove: (repoId: string) => void;
+}> = ({ repos, activeRepoId, disabled, onSelect, onRemove }) => {
+  const active = repos.find(r => r.id === activeRepoId);
+
+  return (
+    <div className="flex items-center space-x-1 shrink-0">
+      <select
+        value={activeRepoId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        disabled={disabled}
+        title={active?.lastFetched ? `Last fetched ${new Date(active.lastFetched).toLocaleString()}` : 'Not fetched yet'}
+        className="w-36 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all truncate"
+      >
+        <option value="">New repository…</option>
+        {repos.map(repo => (
+          <option key={repo.id} value={repo.id}>{repo.name} ({repo.ref}){repo.readOnly ? ' · read-only' : repo.storage === 'disk' ? ' · disk' : ''}</option>
+        ))}
+      </select>
+      {active ? (
+        <button
+          onClick={() => onRemove(active.id)}
+          disabled={disabled}
+          className="p-2 text-zinc-500 hover:text-red-400 disabled:text-zinc-700 rounded-lg transition-colors"
+          title={`Remove ${active.name} from workspace`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      ) : (
+        <span className="p-2 text-zinc-600" title="Clone to add a new repository">
+          <Plus className="w-4 h-4" />
+        </span>
+      )}
+    </div>
+  );
+};
+
+const CancelButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    onClick={onClick}
+    className="ml-3 shrink-0 flex items-center space-x-1 px-1.5 rounded bg-blue-900/40 hover:bg-red-500/60 text-blue-100 transition-colors"
+    title="Stop the running operation"
+  >
+    <CircleX className="w-3 h-3" />
+    <span>Cancel</span>
+  </button>
+);
+
 const App: React.FC = () => {
   const [repoState, setRepoState] = useState<RepoState>({
     url: 'https://github.com/copywrite-ai/nano-web-git',
@@ -176,20 +317,51 @@ const App: React.FC = () => {
     error: null,
     useProxy: false,
   });
+  const [repos, setRepos] = useState<RepoMeta[]>([]);
+  const [activeRepoId, setActiveRepoId] = useState<string | null>(() => localStorage.getItem(ACTIVE_REPO_KEY));
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [fileTree, setFileTree] = useState<FileNode[]>([]);
-  const [selectedFile, setSelectedFile] = useState<{ path: string; content: string } | null>(null);
+  const [selectedFile, setSelectedFile] = useState<FileContent | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showMarkdownSource, setShowMarkdownSource] = useState(false);
+  const [highlightLine, setHighlightLine] = useState<number | null>(null);
+  const [sidebarMode, setSidebarMode] = useState<'files' | 'search'>('files');
+  // Unsaved editor contents keyed by repo-relative path
+  const [dirtyBuffers, setDirtyBuffers] = useState<Map<string, string>>(new Map());
+  const [fileStatuses, setFileStatuses] = useState<FileStatus[]>([]);
   const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
   const [localRootHandle, setLocalRootHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number, y: number, path: string } | null>(null);
 
+  const [diffRange, setDiffRange] = useState<DiffRange | null>(null);
   const [aiExplanation, setAiExplanation] = useState<string | null>(null);
   const [isExplaining, setIsExplaining] = useState(false);
   const [isSyncingAll, setIsSyncingAll] = useState(false);
-  const [syncProgress, setSyncProgress] = useState<{ current: number; total: number; path: string } | null>(null);
-  const [activeTab, setActiveTab] = useState<'code' | 'logs'>('code');
+  const [isImporting, setIsImporting] = useState(false);
+  const [syncPlan, setSyncPlan] = useState<SyncPlan | null>(null);
+  const [lastSync, setLastSync] = useState<SyncJournalSummary | null>(null);
+  const [isSyncRulesOpen, setIsSyncRulesOpen] = useState(false);
+  const [isProxySettingsOpen, setIsProxySettingsOpen] = useState(false);
+  const [extensionStatus, setExtensionStatus] = useState<ExtensionStatus | null>(null);
+  const [progress, setProgress] = useState<OperationProgress | null>(null);
+  // The clone, pull, sync, push or fetch that the status bar's Cancel button stops
+  const operationRef = useRef<AbortController | null>(null);
+  const [isCancellable, setIsCancellable] = useState(false);
+  const [activeTab, setActiveTab] = useState<'code' | 'history' | 'changes' | 'logs'>('code');
+  // Bumped whenever HEAD moves locally (commits) so history views reload
+  const [headRevision, setHeadRevision] = useState(0);
   const [isBuildGuideOpen, setIsBuildGuideOpen] = useState(false);
+  const [isCredentialsOpen, setIsCredentialsOpen] = useState(false);
+  const [authPrompt, setAuthPrompt] = useState<{ request: AuthRequest; resolve: (credential: GitCredential | null) => void } | null>(null);
+  const [paletteMode, setPaletteMode] = useState<'files' | 'commands' | null>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
+  // File link waiting for its repository to become active
+  const pendingLinkRef = useRef<FileLink | null>(null);
+  const activeRepo = repos.find(r => r.id === activeRepoId) ?? null;
+  // Disk-backed repos are cloned straight into their folder, so there is nothing to sync
+  const isDiskRepo = activeRepo?.storage === 'disk';
+  const isReadOnly = !!activeRepo?.readOnly;
+  const [cloneToDisk, setCloneToDisk] = useState(false);
 
   const addLog = useCallback((message: string, level: LogEntry['level'] = 'info') => {
     setLogs(prev => [...prev, { timestamp: new Date(), message, level }]);
@@ -201,30 +373,196 @@ const App: React.FC = () => {
     }
   }, [logs, activeTab]);
 
-  const refreshTree = async () => {
-    const tree = await gitService.getFileTree();
+  const refreshStatus = useCallback(async (repoId: string | null) => {
+    try {
+      setFileStatuses(repoId ? await gitService.status(repoId) : []);
+    } catch (err: any) {
+      // Not cloned yet, so there is no index to compare against; anything else is worth knowing
+      const notCloned = err.code === 'NOT_FOUND' || err.detail === 'NotFoundError' || err.detail === 'ENOENT';
+      if (!notCloned) addLog(`Could not read the status of the working tree: ${err.message}`, 'warn');
+      setFileStatuses([]);
+    }
+  }, [addLog]);
+
+  const refreshTree = async (repoId: string | null = activeRepoId) => {
+    const tree = repoId ? await gitService.getFileTree(repoId) : [];
     setFileTree(tree);
+    await refreshStatus(repoId);
+  };
+
+  const treeMarks = useMemo<TreeMarks>(() => {
+    const changed = new Map(fileStatuses.map(f => [f.path, f.kind] as const));
+    const changedDirs = new Set<string>();
+    for (const path of [...changed.keys(), ...dirtyBuffers.keys()]) {
+      const parts = path.split('/');
+      for (let i = 1; i < parts.length; i++) changedDirs.add(parts.slice(0, i).join('/'));
+    }
+    return { changed, changedDirs, dirty: new Set(dirtyBuffers.keys()) };
+  }, [fileStatuses, dirtyBuffers]);
+
+  useEffect(() => {
+    gitService.detectExtension().then(setExtensionStatus);
+  }, []);
+
+  useEffect(() => {
+    if (dirtyBuffers.size === 0) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [dirtyBuffers]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'p') return;
+      // Also keeps the browser's print dialog from opening
+      e.preventDefault();
+      setPaletteMode(e.shiftKey ? 'commands' : 'files');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const upsertRepo = (repo: RepoMeta) => {
+    setRepos(prev => prev.some(r => r.id === repo.id)
+      ? prev.map(r => (r.id === repo.id ? repo : r))
+      : [...prev, repo]);
+  };
+
+  const selectRepo = useCallback((repo: RepoMeta | null) => {
+    setActiveRepoId(repo?.id ?? null);
+    if (repo) {
+      localStorage.setItem(ACTIVE_REPO_KEY, repo.id);
+      setRepoState(prev => ({ ...prev, url: repo.url, branch: repo.ref, useProxy: repo.useProxy, error: null }));
+    } else {
+      localStorage.removeItem(ACTIVE_REPO_KEY);
+    }
+    setSelectedFile(null);
+    setIsEditing(false);
+    setDirtyBuffers(new Map());
+    setDiffRange(null);
+    setSelectedPaths(new Set());
+    setAiExplanation(null);
+    setFileTree([]);
+    setFileStatuses([]);
+    // A repository added for a clone has no files to show until that clone finishes
+    if (repo?.lastFetched) {
+      gitService.getFileTree(repo.id).then(setFileTree).catch(err => addLog(`Failed to load ${repo.name}: ${err.message}`, 'error'));
+      refreshStatus(repo.id);
+    }
+  }, [addLog, refreshStatus]);
+
+  useEffect(() => {
+    gitService.setAuthHandler(request => new Promise(resolve => setAuthPrompt({ request, resolve })));
+    return () => gitService.setAuthHandler(null);
+  }, []);
+
+  useEffect(() => {
+    gitService.listRepos().then(list => {
+      setRepos(list);
+      const link = parseFileLink(window.location.hash);
+      const linked = link && list.find(r => r.id === link.repoId);
+      if (linked) pendingLinkRef.current = link;
+      const saved = list.find(r => r.id === localStorage.getItem(ACTIVE_REPO_KEY));
+      selectRepo(linked || saved || list[0] || null);
+    }).catch(err => addLog(`Failed to load workspace: ${err.message}`, 'error'));
+  }, [selectRepo, addLog]);
+
+  const handleRemoveRepo = async (repoId: string) => {
+    const repo = repos.find(r => r.id === repoId);
+    if (!repo) return;
+    const question = repo.storage === 'disk'
+      ? `Remove ${repo.name} from the workspace? Its folder on disk is left as it is.`
+      : `Remove ${repo.name} and its local clone from the workspace?`;
+    if (!window.confirm(question)) return;
+    try {
+      await gitService.removeRepo(repoId);
+      const remaining = repos.filter(r => r.id !== repoId);
+      setRepos(remaining);
+      selectRepo(remaining[0] ?? null);
+      addLog(`Removed repository ${repo.name}`, 'success');
+    } catch (err: any) {
+      addLog(`Failed to remove ${repo.name}: ${err.message}`, 'error');
+    }
+  };
+
+  const beginCancellable = () => {
+    const controller = new AbortController();
+    operationRef.current = controller;
+    setIsCancellable(true);
+    // Shows the bar, and the Cancel button in it, before the first progress event arrives
+    setProgress({ type: 'progress', phase: 'Starting', loaded: 0, total: null, bytes: 0, rate: null });
+    return controller.signal;
+  };
+
+  const endCancellable = () => {
+    operationRef.current = null;
+    setIsCancellable(false);
+  };
+
+  const handleCancelOperation = () => {
+    operationRef.current?.abort();
   };
 
+  // Clone and pull report the server's messages as text and the transfer itself as progress
+  const handleFetchProgress = (update: string | OperationProgress) => {
+    if (typeof update === 'string') addLog(update, 'info');
+    else setProgress(update);
+  };
+
+  // Only touches refs, setters and addLog, so it can stay the same across renders
+  const runCancellable = useCallback<CancellableRunner>(async (run) => {
+    // A clone or sync already owns the status bar; this action runs without taking it over
+    if (operationRef.current) {
+      return run(undefined, update => {
+        if (typeof update === 'string') addLog(update, 'info');
+      });
+    }
+    const signal = beginCancellable();
+    try {
+      return await run(signal, handleFetchProgress);
+    } finally {
+      endCancellable();
+      setProgress(null);
+    }
+  }, [addLog]);
+
   const handleAction = async (action: 'clone' | 'pull') => {
     if (!repoState.url) return;
+    if (action === 'pull' && !activeRepo) {
+      addLog('Clone a repository before pulling.', 'error');
+      return;
+    }
+    // Cloning a different URL, or to a different place, adds a new repository instead of replacing the active one
+    const storage = cloneToDisk && localRootHandle ? 'disk' : 'browser';
+    const reuseActive = !!activeRepo && activeRepo.url === repoState.url && (activeRepo.storage ?? 'browser') === storage;
+    if (action === 'clone' && !reuseActive && dirtyBuffers.size > 0 && !window.confirm(`Discard ${dirtyBuffers.size} unsaved file(s)?`)) return;
     setRepoState(prev => ({ ...prev, isCloning: true, error: null }));
     setActiveTab('logs');
     addLog(`${action === 'clone' ? 'Cloning' : 'Pulling'} ${repoState.url}...`, 'info');
+    const signal = beginCancellable();
 
     try {
       await gitService.initRepo();
+      let repo: RepoMeta;
       if (action === 'clone') {
-        await gitService.clone(repoState.url, repoState.branch, repoState.useProxy, (msg) => addLog(msg, 'info'));
+        let target = activeRepo!;
+        if (!reuseActive) {
+          target = await gitService.addRepo(repoState.url, repoState.branch, repoState.useProxy, storage);
+          upsertRepo(target);
+          selectRepo(target);
+        }
+        repo = await gitService.clone(target.id, repoState.url, repoState.branch, repoState.useProxy, handleFetchProgress, signal);
       } else {
-        await gitService.pull(repoState.url, repoState.branch, repoState.useProxy, (msg) => addLog(msg, 'info'));
+        repo = await gitService.pull(activeRepo!.id, repoState.url, repoState.branch, repoState.useProxy, handleFetchProgress, signal);
       }
+      upsertRepo(repo);
 
       addLog(`Success: Repository ${action === 'clone' ? 'cloned' : 'updated'}!`, 'success');
-      await refreshTree();
+      if (action === 'pull') addLog('Open the diff viewer and choose "Last pull" to review the incoming changes.', 'info');
+      await refreshTree(repo.id);
 
       if (action === 'clone' || fileTree.length === 0) {
-        const tree = await gitService.getFileTree();
+        const tree = await gitService.getFileTree(repo.id);
         const fileNames = tree.slice(0, 10).map(n => n.name);
         if (fileNames.length > 0) {
           const summary = await summarizeRepo(fileNames);
@@ -232,15 +570,71 @@ const App: React.FC = () => {
         }
       }
     } catch (err: any) {
+      if (err.name === 'AbortError') {
+        addLog(`${action === 'clone' ? 'Clone' : 'Pull'} cancelled`, 'warn');
+        return;
+      }
       const errorMsg = err.message || 'Unknown error occurred';
       setRepoState(prev => ({ ...prev, error: errorMsg }));
       addLog(`Error: ${errorMsg}`, 'error');
+      if (FETCH_ERROR_HINTS[err.code]) addLog(FETCH_ERROR_HINTS[err.code], 'info');
+    } finally {
+      endCancellable();
+      setProgress(null);
+      setRepoState(prev => ({ ...prev, isCloning: false }));
+    }
+  };
+
+  // A cloned repository whose URL is still the one in the header can switch refs in place
+  const switchableRepo = activeRepo?.lastFetched && activeRepo.url === repoState.url ? activeRepo : null;
+
+  const handleSelectRef = async (ref: string) => {
+    if (!switchableRepo) {
+      setRepoState(p => ({ ...p, branch: ref }));
+      return;
+    }
+    // The buffers belong to the files of the current ref, not to the ones the checkout brings
+    if (dirtyBuffers.size > 0 && !window.confirm(`Discard ${dirtyBuffers.size} unsaved file(s)?`)) return;
+    setRepoState(prev => ({ ...prev, isCloning: true, error: null }));
+    addLog(`Switching ${switchableRepo.name} to ${ref}...`, 'info');
+    const signal = beginCancellable();
+    try {
+      const repo = await gitService.checkout(switchableRepo.id, ref, handleFetchProgress, signal);
+      upsertRepo(repo);
+      setRepoState(p => ({ ...p, branch: repo.ref }));
+      setSelectedFile(null);
+      setIsEditing(false);
+      setDirtyBuffers(new Map());
+      setDiffRange(null);
+      await refreshTree(repo.id);
+      addLog(`Switched to ${ref}`, 'success');
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        addLog(`Switching to ${ref} cancelled`, 'warn');
+        return;
+      }
+      setRepoState(prev => ({ ...prev, error: err.message }));
+      addLog(`Checkout failed: ${err.message}`, 'error');
     } finally {
+      endCancellable();
+      setProgress(null);
       setRepoState(prev => ({ ...prev, isCloning: false }));
     }
   };
 
-  const handleFileClick = async (path: string, isMulti: boolean) => {
+  const handleCreateBranch = async (name: string) => {
+    if (!switchableRepo) return;
+    try {
+      const repo = await gitService.createBranch(switchableRepo.id, name);
+      upsertRepo(repo);
+      setRepoState(p => ({ ...p, branch: repo.ref }));
+      addLog(`Created and switched to branch ${name}`, 'success');
+    } catch (err: any) {
+      addLog(`Failed to create branch ${name}: ${err.message}`, 'error');
+    }
+  };
+
+  const handleFileClick = async (path: string, isMulti: boolean, line: number | null = null) => {
     if (isMulti) {
       setSelectedPaths(prev => {
         const next = new Set(prev);
@@ -248,11 +642,17 @@ const App: React.FC = () => {
         else next.add(path);
         return next;
       });
-    } else {
+    } else if (activeRepoId) {
       setSelectedPaths(new Set([path]));
       try {
-        const content = await gitService.readFile(path);
-        setSelectedFile({ path, content });
+        const file = await gitService.readFile(activeRepoId, path);
+        setSelectedFile(file);
+        setHighlightLine(line);
+        setIsEditing(dirtyBuffers.has(path) && line === null && isEditable(file));
+        // Jumping to a line only makes sense in the source view
+        setShowMarkdownSource(line !== null);
+        window.history.replaceState(null, '', fileLinkHash({ repoId: activeRepoId, path, line }));
+        setDiffRange(null);
         setAiExplanation(null);
         setActiveTab('code');
       } catch (err) {
@@ -261,6 +661,63 @@ const App: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    const link = pendingLinkRef.current;
+    if (!link || link.repoId !== activeRepoId) return;
+    pendingLinkRef.current = null;
+    handleFileClick(link.path, false, link.line);
+  }, [activeRepoId, repos]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const link = parseFileLink(window.location.hash);
+      if (!link) return;
+      if (link.repoId === activeRepoId) {
+        if (link.path === selectedFile?.path) setHighlightLine(link.line);
+        else handleFileClick(link.path, false, link.line);
+        return;
+      }
+      const repo = repos.find(r => r.id === link.repoId);
+      if (!repo) return;
+      pendingLinkRef.current = link;
+      selectRepo(repo);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [activeRepoId, repos, selectedFile, dirtyBuffers, selectRepo]);
+
+  const updateBuffer = (path: string, value: string) => {
+    setDirtyBuffers(prev => {
+      const next = new Map(prev);
+      if (value === selectedFile?.text) next.delete(path);
+      else next.set(path, value);
+      return next;
+    });
+  };
+
+  const discardBuffer = (path: string) => {
+    setDirtyBuffers(prev => {
+      const next = new Map(prev);
+      next.delete(path);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!selectedFile || !activeRepoId) return;
+    const content = dirtyBuffers.get(selectedFile.path);
+    if (content === undefined) return;
+    try {
+      await gitService.writeFile(activeRepoId, selectedFile.path, content);
+      setSelectedFile(await gitService.readFile(activeRepoId, selectedFile.path));
+      discardBuffer(selectedFile.path);
+      addLog(`Saved ${selectedFile.path}`, 'success');
+      await refreshStatus(activeRepoId);
+    } catch (err: any) {
+      addLog(`Failed to save ${selectedFile.path}: ${err.message}`, 'error');
+    }
+  };
+
   const handleMapLocalFolder = async () => {
     try {
       const handle = await (window as any).showDirectoryPicker({ mode: 'readwrite' });
@@ -274,11 +731,33 @@ const App: React.FC = () => {
     }
   };
 
+  // Browses a checkout that already exists on disk, e.g. one made with desktop git
+  const handleOpenLocalRepo = async () => {
+    if (dirtyBuffers.size > 0 && !window.confirm(`Discard ${dirtyBuffers.size} unsaved file(s)?`)) return;
+    try {
+      const handle = await (window as any).showDirectoryPicker({ mode: 'read' });
+      const repo = await gitService.openLocalRepo(handle);
+      upsertRepo(repo);
+      selectRepo(repo);
+      addLog(`Opened ${repo.name} read-only${repo.url ? ` (origin: ${repo.url})` : ''}`, 'success');
+    } catch (err: any) {
+      if (err.name !== 'AbortError') {
+        addLog(`Failed to open local repository: ${err.message}`, 'error');
+      }
+    }
+  };
+
+  const showDiff = (range: DiffRange) => {
+    setDiffRange(range);
+    setActiveTab('code');
+  };
+
   const handleContextMenu = (e: React.MouseEvent, path: string) => {
     setContextMenu({ x: e.clientX, y: e.clientY, path });
   };
 
   const handleSyncToLocal = async () => {
+    if (!activeRepoId) return;
     if (!localRootHandle) {
       addLog('Please map a local folder first!', 'error');
       setContextMenu(null);
@@ -290,33 +769,23 @@ const App: React.FC = () => {
       : [contextMenu!.path];
 
     setContextMenu(null);
-    addLog(`Syncing ${pathsToSync.length} items to local folder...`, 'info');
-    setSyncProgress({ current: 0, total: pathsToSync.length, path: 'Starting...' });
+    await planSync(pathsToSync);
+  };
 
+  const handleChangeEncoding = async (encoding: string) => {
+    if (!selectedFile || !activeRepoId) return;
     try {
-      for (let i = 0; i < pathsToSync.length; i++) {
-        const path = pathsToSync[i];
-        await gitService.syncToLocal(path, (payload) => {
-          if (payload.type === 'sync') {
-            // For single file/folder sync, the notification is internal
-          }
-        });
-        setSyncProgress({ current: i + 1, total: pathsToSync.length, path: path.replace('/repo/', '') });
-        addLog(`Synced: ${path.replace('/repo/', '')}`, 'success');
-      }
-      addLog('Synchronization completed!', 'success');
+      setSelectedFile(await gitService.readFile(activeRepoId, selectedFile.path, encoding));
     } catch (err: any) {
-      addLog(`Sync failed: ${err.message}`, 'error');
-    } finally {
-      setSyncProgress(null);
+      addLog(`Failed to decode ${selectedFile.path} as ${encoding}: ${err.message}`, 'error');
     }
   };
 
   const handleExplain = async () => {
-    if (!selectedFile) return;
+    if (selectedFile?.text == null) return;
     setIsExplaining(true);
     try {
-      const explanation = await explainCode(selectedFile.content, selectedFile.path);
+      const explanation = await explainCode(dirtyBuffers.get(selectedFile.path) ?? selectedFile.text, selectedFile.path);
       setAiExplanation(explanation);
     } catch (err) {
       addLog('AI explanation failed', 'error');
@@ -325,33 +794,274 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSyncAll = async () => {
-    if (!localRootHandle) return;
+  // Works out what a sync would change and opens the review dialog; nothing is written yet
+  const planSync = async (paths: string[]) => {
+    if (!localRootHandle || !activeRepoId) return;
     setIsSyncingAll(true);
     setActiveTab('logs');
-    addLog(`Starting full synchronization to ${localRootHandle.name}...`, 'info');
+    addLog(`Comparing ${paths.includes('') ? 'the repository' : `${paths.length} item(s)`} with ${localRootHandle.name}...`, 'info');
+    const signal = beginCancellable();
     try {
-      await gitService.syncAll((payload) => {
-        if (payload.type === 'sync') {
-          setSyncProgress(payload);
-        }
-      });
-      addLog('Full synchronization completed successfully!', 'success');
+      const plan = await gitService.planSync(activeRepoId, paths, setProgress, signal);
+      if (plan.skippedHashes) addLog(`${plan.skippedHashes} unchanged file(s) recognised from the sync manifest without re-hashing`, 'info');
+      if (plan.entries.length === 0) {
+        addLog(`${localRootHandle.name} is already up to date (${plan.unchanged} files unchanged)`, 'success');
+      } else {
+        setSyncPlan(plan);
+      }
+    } catch (err: any) {
+      if (err.name === 'AbortError') addLog('Sync cancelled', 'warn');
+      else addLog(`Sync failed: ${err.message}`, 'error');
+    } finally {
+      endCancellable();
+      setIsSyncingAll(false);
+      setProgress(null);
+    }
+  };
+
+  const handleSyncAll = () => planSync(['']);
+
+  const refreshLastSync = useCallback(async () => {
+    if (!localRootHandle || !activeRepoId) {
+      setLastSync(null);
+      return;
+    }
+    try {
+      setLastSync(await gitService.getLastSync(activeRepoId));
+    } catch (err) {
+      setLastSync(null);
+    }
+  }, [localRootHandle, activeRepoId]);
+
+  useEffect(() => {
+    refreshLastSync();
+  }, [refreshLastSync]);
+
+  const handleApplySyncPlan = async (plan: SyncPlan, entries: SyncPlanEntry[]) => {
+    setSyncPlan(null);
+    setIsSyncingAll(true);
+    addLog(`Applying ${entries.length} of ${plan.entries.length} planned change(s)...`, 'info');
+    const signal = beginCancellable();
+    try {
+      const result = await gitService.syncToLocal(plan.repoId, entries, setProgress, signal);
+      for (const path of result.skipped) addLog(`Skipped ${path}: it changed locally after the sync was planned`, 'warn');
+      const leftLocal = plan.entries.filter(e => e.localChanges && !entries.includes(e)).length;
+      if (leftLocal) addLog(`Left ${leftLocal} local change(s) untouched. Use Import to bring them into the repository.`, 'info');
+      addLog(`Synchronization completed: ${result.written} written, ${result.removed} removed`, 'success');
     } catch (err: any) {
-      addLog(`Full sync failed: ${err.message}`, 'error');
+      if (err.name === 'AbortError') addLog('Sync cancelled. Files written so far can be restored with Revert Last Sync.', 'warn');
+      else addLog(`Sync failed: ${err.message}`, 'error');
     } finally {
+      endCancellable();
       setIsSyncingAll(false);
-      setTimeout(() => setSyncProgress(null), 2000);
+      setTimeout(() => setProgress(null), 2000);
+      refreshLastSync();
     }
   };
 
+  const handleRevertLastSync = async () => {
+    if (!localRootHandle || !activeRepoId || !lastSync) return;
+    const when = new Date(lastSync.createdAt).toLocaleString();
+    if (!window.confirm(`Restore ${lastSync.files} file(s) in ${localRootHandle.name} to their state before the sync of ${when}?`)) return;
+    setIsSyncingAll(true);
+    setActiveTab('logs');
+    addLog(`Reverting the sync of ${when}...`, 'info');
+    try {
+      const result = await gitService.revertLastSync(activeRepoId, setProgress);
+      for (const path of result.skipped) addLog(`Kept ${path}: it was edited locally after the sync`, 'warn');
+      addLog(`Revert completed: ${result.restored} file(s) restored`, 'success');
+    } catch (err: any) {
+      addLog(`Revert failed: ${err.message}`, 'error');
+    } finally {
+      setIsSyncingAll(false);
+      setTimeout(() => setProgress(null), 2000);
+      refreshLastSync();
+    }
+  };
+
+  // overwrite: conflicting files the user chose to replace with the local version
+  const handleImportLocal = async (overwrite?: string[]) => {
+    if (!localRootHandle || !activeRepoId) return;
+    setIsImporting(true);
+    addLog(`Importing local changes from ${localRootHandle.name}...`, 'info');
+    try {
+      // Saving an open buffer later would silently replace what was imported under it
+      const result = await gitService.syncFromLocal(activeRepoId, [...dirtyBuffers.keys()], overwrite);
+      for (const change of result.imported) addLog(`Imported ${change.type} file: ${change.path}`, 'info');
+      const conflicts = result.conflicts.filter(path => !dirtyBuffers.has(path));
+      for (const path of result.conflicts) {
+        if (dirtyBuffers.has(path)) addLog(`Not imported, unsaved in the editor: ${path}. Save or discard it, then import again.`, 'warn');
+        else addLog(`Changed both locally and in the repository: ${path}`, 'warn');
+      }
+      addLog(`Import finished: ${result.imported.length} change(s) imported, ${result.unchanged} unchanged (${result.skippedHashes} not re-hashed)`, 'success');
+      if (result.imported.length) {
+        await refreshTree(activeRepoId);
+        if (selectedFile && !dirtyBuffers.has(selectedFile.path) && result.imported.some(c => c.path === selectedFile.path)) {
+          await handleFileClick(selectedFile.path, false);
+        }
+        setActiveTab('changes');
+      }
+      if (!overwrite && conflicts.length && window.confirm(`${conflicts.length} file(s) changed both locally and in the repository since the last sync. Replace the repository version with the local one?`)) {
+        setIsImporting(false);
+        await handleImportLocal(conflicts);
+      }
+    } catch (err: any) {
+      addLog(`Import failed: ${err.message}`, 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const warning = dirtyBuffers.size > 0
+      ? `Delete every repository and discard ${dirtyBuffers.size} unsaved file(s)? This cannot be undone.`
+      : 'Delete every repository from this browser? This cannot be undone.';
+    if (!window.confirm(warning)) return;
+    try {
+      await gitService.resetApp();
+      setRepos([]);
+      selectRepo(null);
+      addLog('Workspace reset: all repositories were deleted', 'success');
+    } catch (err: any) {
+      addLog(`Reset failed: ${err.message}`, 'error');
+    }
+  };
+
+  const paletteCommands: PaletteCommand[] = [
+    {
+      id: 'clone',
+      label: 'Git: Clone',
+      icon: <Download className="w-4 h-4" />,
+      disabledReason: repoState.isCloning ? 'Busy' : !repoState.url ? 'Enter a repository URL first' : undefined,
+      run: () => handleAction('clone'),
+    },
+    {
+      id: 'pull',
+      label: 'Git: Pull',
+      icon: <GitPullRequest className="w-4 h-4" />,
+      disabledReason: repoState.isCloning ? 'Busy' : !activeRepo?.lastFetched ? 'Clone a repository first' : isReadOnly ? 'Opened read-only' : undefined,
+      run: () => handleAction('pull'),
+    },
+    {
+      id: 'openLocalRepo',
+      label: 'Git: Open Local Repository',
+      icon: <FolderGit2 className="w-4 h-4" />,
+      disabledReason: repoState.isCloning ? 'Busy' : undefined,
+      run: handleOpenLocalRepo,
+    },
+    {
+      id: 'mapFolder',
+      label: 'Local: Map Folder',
+      icon: <FolderOpen className="w-4 h-4" />,
+      run: handleMapLocalFolder,
+    },
+    {
+      id: 'syncAll',
+      label: 'Local: Sync All',
+      icon: <RefreshCw className="w-4 h-4" />,
+      disabledReason: !localRootHandle ? 'Map a local folder first' : isDiskRepo ? 'Cloned on disk, nothing to sync' : isSyncingAll ? 'Busy' : !activeRepoId ? 'No repository selected' : undefined,
+      run: () => handleSyncAll(),
+    },
+    {
+      id: 'revertSync',
+      label: 'Local: Revert Last Sync',
+      icon: <Undo2 className="w-4 h-4" />,
+      disabledReason: !localRootHandle ? 'Map a local folder first' : isDiskRepo ? 'Cloned on disk, nothing to sync' : isSyncingAll ? 'Busy' : !lastSync ? 'Nothing to revert' : undefined,
+      run: handleRevertLastSync,
+    },
+    {
+      id: 'syncRules',
+      label: 'Local: Edit Sync Rules',
+      icon: <SlidersHorizontal className="w-4 h-4" />,
+      disabledReason: !localRootHandle ? 'Map a local folder first' : isDiskRepo ? 'Cloned on disk, nothing to sync' : !activeRepoId ? 'No repository selected' : undefined,
+      run: () => setIsSyncRulesOpen(true),
+    },
+    {
+      id: 'importLocal',
+      label: 'Local: Import Changes',
+      icon: <Upload className="w-4 h-4" />,
+      disabledReason: !localRootHandle ? 'Map a local folder first' : isDiskRepo ? 'Cloned on disk, nothing to sync' : isImporting ? 'Busy' : !activeRepo?.lastFetched ? 'Clone a repository first' : undefined,
+      run: () => handleImportLocal(),
+    },
+    {
+      id: 'explain',
+      label: 'AI: Explain File',
+      icon: <Sparkles className="w-4 h-4" />,
+      disabledReason: !selectedFile ? 'Open a file first' : selectedFile.text === null ? 'Not a text file' : isExplaining ? 'Busy' : undefined,
+      run: () => {
+        setActiveTab('code');
+        setDiffRange(null);
+        handleExplain();
+      },
+    },
+    {
+      id: 'proxySettings',
+      label: 'Network: CORS Proxies and Retries',
+      icon: <Globe className="w-4 h-4" />,
+      run: () => setIsProxySettingsOpen(true),
+    },
+    {
+      id: 'reset',
+      label: 'Workspace: Reset',
+      icon: <RotateCcw className="w-4 h-4" />,
+      disabledReason: repoState.isCloning ? 'Busy' : undefined,
+      run: handleReset,
+    },
+  ];
+
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-zinc-950" onClick={() => setContextMenu(null)}>
       {/* Build Guide Modal */}
       <BuildGuideModal isOpen={isBuildGuideOpen} onClose={() => setIsBuildGuideOpen(false)} />
+      <CredentialManagerModal isOpen={isCredentialsOpen} onClose={() => setIsCredentialsOpen(false)} />
+      {syncPlan && (
+        <SyncPlanDialog
+          plan={syncPlan}
+          folderName={localRootHandle?.name ?? 'local folder'}
+          onApply={(entries) => handleApplySyncPlan(syncPlan, entries)}
+          onCancel={() => {
+            addLog('Sync cancelled, nothing was written', 'info');
+            setSyncPlan(null);
+          }}
+        />
+      )}
+      {isSyncRulesOpen && activeRepoId && (
+        <SyncRulesDialog
+          repoId={activeRepoId}
+          folderName={localRootHandle?.name ?? 'local folder'}
+          onClose={() => setIsSyncRulesOpen(false)}
+          onLog={addLog}
+        />
+      )}
+      {isProxySettingsOpen && (
+        <ProxySettingsDialog
+          onClose={() => setIsProxySettingsOpen(false)}
+          onLog={addLog}
+        />
+      )}
+      {paletteMode && (
+        <CommandPalette
+          key={paletteMode}
+          initialMode={paletteMode}
+          repoId={activeRepo?.lastFetched ? activeRepo.id : null}
+          commands={paletteCommands}
+          onOpenFile={(path) => handleFileClick(path, false)}
+          onClose={() => setPaletteMode(null)}
+        />
+      )}
+      {authPrompt && (
+        <AuthPromptModal
+          request={authPrompt.request}
+          onResolve={(credential) => {
+            if (!credential) addLog(`Authentication for ${authPrompt.request.host} cancelled`, 'warn');
+            authPrompt.resolve(credential);
+            setAuthPrompt(null);
+          }}
+        />
+      )}
 
       {/* Context Menu */}
-      {contextMenu && (
+      {contextMenu && !isDiskRepo && (
         <div
           className="fixed z-[100] bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl py-1 min-w-[160px]"
           style={{ top: contextMenu.y, left: contextMenu.x }}
@@ -382,6 +1092,16 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center space-x-2 md:space-x-3 flex-1 max-w-7xl px-2 md:px-8 overflow-hidden">
+          <RepoSwitcher
+            repos={repos}
+            activeRepoId={activeRepoId}
+            disabled={repoState.isCloning || isSyncingAll}
+            onSelect={(repoId) => {
+              if (dirtyBuffers.size > 0 && !window.confirm(`Discard ${dirtyBuffers.size} unsaved file(s)?`)) return;
+              selectRepo(repos.find(r => r.id === repoId) ?? null);
+            }}
+            onRemove={handleRemoveRepo}
+          />
           <div className="relative flex-[2] group min-w-0">
             <input
               type="text"
@@ -394,12 +1114,15 @@ const App: React.FC = () => {
               className="w-full bg-zinc-800 border border-zinc-700 rounded-lg pl-4 pr-4 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all placeholder:text-zinc-600"
             />
           </div>
-          <input
-            type="text"
+          <BranchPicker
+            url={repoState.url}
+            useProxy={repoState.useProxy}
+            repoId={switchableRepo?.id ?? null}
             value={repoState.branch}
-            onChange={(e) => setRepoState(p => ({ ...p, branch: e.target.value }))}
-            placeholder="main"
-            className="w-24 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all text-center"
+            disabled={repoState.isCloning || isReadOnly}
+            onSelect={handleSelectRef}
+            onCreateBranch={handleCreateBranch}
+            onLog={addLog}
           />
           <div className="flex items-center space-x-2 px-1 shrink-0">
             <label className="flex items-center space-x-2 cursor-pointer group">
@@ -415,6 +1138,28 @@ const App: React.FC = () => {
               </div>
               <span className="text-[9px] font-bold text-zinc-500 uppercase tracking-tighter group-hover:text-zinc-300 transition-colors hidden sm:inline">CORS Proxy</span>
             </label>
+            <button
+              onClick={() => setIsProxySettingsOpen(true)}
+              className="p-1 text-zinc-500 hover:text-zinc-300 transition-colors"
+              title="Choose CORS proxies"
+            >
+              <Globe className="w-3.5 h-3.5" />
+            </button>
+            {localRootHandle && (
+              <label className="flex items-center space-x-2 cursor-pointer group" title={`Clone new repositories into ${localRootHandle.name}, .git included, instead of the browser's storage`}>
+                <div className="relative">
+                  <input
+                    type="checkbox"
+                    checked={cloneToDisk}
+                    onChange={(e) => setCloneToDisk(e.target.checked)}
+                    className="sr-only"
+                  />
+                  <div className={`w-7 h-3.5 rounded-full transition-colors ${cloneToDisk ? 'bg-emerald-600' : 'bg-zinc-700'}`} />
+                  <div className={`absolute top-0.5 left-0.5 w-2.5 h-2.5 bg-white rounded-full transition-transform ${cloneToDisk ? 'translate-x-3.5' : ''}`} />
+                </div>
+                <span className="text-[9px] font-bold text-zinc-500 uppercase tracking-tighter group-hover:text-zinc-300 transition-colors hidden sm:inline">On Disk</span>
+              </label>
+            )}
           </div>
           <div className="flex space-x-2 shrink-0">
             <button
@@ -427,12 +1172,20 @@ const App: React.FC = () => {
             </button>
             <button
               onClick={() => handleAction('pull')}
-              disabled={repoState.isCloning}
+              disabled={repoState.isCloning || isReadOnly}
               className="flex items-center space-x-2 bg-zinc-800 hover:bg-zinc-700 disabled:bg-zinc-800 disabled:text-zinc-600 text-zinc-200 px-3 md:px-4 py-2 rounded-lg text-sm font-semibold border border-zinc-700 transition-all active:scale-95"
             >
               <GitPullRequest className="w-4 h-4" />
               <span className="hidden md:inline">Pull</span>
             </button>
+            <button
+              onClick={handleOpenLocalRepo}
+              disabled={repoState.isCloning}
+              className="flex items-center text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:text-zinc-700 p-2 rounded-lg transition-all border border-transparent hover:border-zinc-700"
+              title="Open an existing local repository (read-only)"
+            >
+              <FolderGit2 className="w-5 h-5" />
+            </button>
             <div className="w-px h-8 bg-zinc-800 mx-0.5 hidden sm:block" />
 
             <button
@@ -447,17 +1200,52 @@ const App: React.FC = () => {
               <span>{localRootHandle ? localRootHandle.name : 'Map Local'}</span>
             </button>
 
-            {localRootHandle && (
-              <button
-                onClick={handleSyncAll}
-                disabled={isSyncingAll || repoState.isCloning}
-                className="flex items-center space-x-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-zinc-800 disabled:text-zinc-600 text-white px-3 md:px-4 py-2 rounded-lg text-sm font-semibold transition-all active:scale-95 shadow-lg shadow-emerald-500/10"
-              >
-                {isSyncingAll ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
-                <span className="hidden md:inline">Sync All</span>
-              </button>
+            {localRootHandle && !isDiskRepo && (
+              <>
+                <button
+                  onClick={() => handleSyncAll()}
+                  disabled={isSyncingAll || isImporting || repoState.isCloning || !activeRepoId}
+                  className="flex items-center space-x-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-zinc-800 disabled:text-zinc-600 text-white px-3 md:px-4 py-2 rounded-lg text-sm font-semibold transition-all active:scale-95 shadow-lg shadow-emerald-500/10"
+                >
+                  {isSyncingAll ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  <span className="hidden md:inline">Sync All</span>
+                </button>
+                <button
+                  onClick={() => handleImportLocal()}
+                  disabled={isSyncingAll || isImporting || repoState.isCloning || !activeRepo?.lastFetched}
+                  className="flex items-center space-x-2 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 text-zinc-200 px-3 md:px-4 py-2 rounded-lg text-sm font-semibold border border-zinc-700 transition-all active:scale-95"
+                  title="Import files edited in the local folder into the repository"
+                >
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  <span className="hidden md:inline">Import</span>
+                </button>
+                <button
+                  onClick={handleRevertLastSync}
+                  disabled={isSyncingAll || isImporting || !lastSync}
+                  className="flex items-center text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:text-zinc-700 p-2 rounded-lg transition-all border border-transparent hover:border-zinc-700"
+                  title={lastSync ? `Revert last sync (${lastSync.files} file(s), ${new Date(lastSync.createdAt).toLocaleString()})` : 'No sync to revert'}
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setIsSyncRulesOpen(true)}
+                  disabled={!activeRepoId}
+                  className="flex items-center text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:text-zinc-700 p-2 rounded-lg transition-all border border-transparent hover:border-zinc-700"
+                  title="Sync rules: include/exclude globs and protected paths"
+                >
+                  <SlidersHorizontal className="w-5 h-5" />
+                </button>
+              </>
             )}
 
+            <button
+              onClick={() => setIsCredentialsOpen(true)}
+              className="flex items-center space-x-2 text-zinc-400 hover:text-white hover:bg-zinc-800 p-2 rounded-lg transition-all border border-transparent hover:border-zinc-700"
+              title="Saved Credentials"
+            >
+              <KeyRound className="w-5 h-5" />
+            </button>
+
             <button
               onClick={() => setIsBuildGuideOpen(true)}
               className="flex items-center space-x-2 text-zinc-400 hover:text-white hover:bg-zinc-800 p-2 rounded-lg transition-all border border-transparent hover:border-zinc-700"
@@ -474,29 +1262,57 @@ const App: React.FC = () => {
         {/* Sidebar - File Explorer */}
         <aside className="w-64 bg-zinc-950 border-r border-zinc-800 flex flex-col shrink-0">
           <div className="p-4 border-b border-zinc-900 flex items-center justify-between">
-            <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Workspace</span>
-            <FolderOpen className="w-4 h-4 text-zinc-600" />
+            <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">
+              {sidebarMode === 'files' ? 'Workspace' : 'Search'}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setSidebarMode('files')}
+                className={sidebarMode === 'files' ? 'text-zinc-300' : 'text-zinc-600 hover:text-zinc-400'}
+                title="Explorer"
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setSidebarMode('search')}
+                disabled={!activeRepo?.lastFetched}
+                className={sidebarMode === 'search' ? 'text-zinc-300' : 'text-zinc-600 hover:text-zinc-400 disabled:text-zinc-800'}
+                title="Search in repository"
+              >
+                <Search className="w-4 h-4" />
+              </button>
+            </div>
           </div>
-          <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
-            {fileTree.length === 0 && !repoState.isCloning && (
-              <div className="text-center mt-12 px-6">
-                <div className="w-12 h-12 bg-zinc-900 rounded-full flex items-center justify-center mx-auto mb-4 border border-zinc-800">
-                  <FolderOpen className="w-6 h-6 text-zinc-700" />
+          {sidebarMode === 'search' && activeRepo ? (
+            <SearchPanel
+              key={activeRepo.id}
+              repoId={activeRepo.id}
+              onOpenMatch={(path, line) => handleFileClick(path, false, line)}
+              onLog={addLog}
+            />
+          ) : (
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+              {fileTree.length === 0 && !repoState.isCloning && (
+                <div className="text-center mt-12 px-6">
+                  <div className="w-12 h-12 bg-zinc-900 rounded-full flex items-center justify-center mx-auto mb-4 border border-zinc-800">
+                    <FolderOpen className="w-6 h-6 text-zinc-700" />
+                  </div>
+                  <h3 className="text-zinc-400 text-sm font-medium mb-1">Empty Repository</h3>
+                  <p className="text-xs text-zinc-600">Clone a repository to start browsing the source code.</p>
                 </div>
-                <h3 className="text-zinc-400 text-sm font-medium mb-1">Empty Repository</h3>
-                <p className="text-xs text-zinc-600">Clone a repository to start browsing the source code.</p>
-              </div>
-            )}
-            {fileTree.map(node => (
-              <TreeNode
-                key={node.path}
-                node={node}
-                isSelected={selectedPaths.has(node.path)}
-                onFileClick={handleFileClick}
-                onContextMenu={handleContextMenu}
-              />
-            ))}
-          </div>
+              )}
+              {fileTree.map(node => (
+                <TreeNode
+                  key={node.path}
+                  node={node}
+                  isSelected={selectedPaths.has(node.path)}
+                  marks={treeMarks}
+                  onFileClick={handleFileClick}
+                  onContextMenu={handleContextMenu}
+                />
+              ))}
+            </div>
+          )}
         </aside>
 
         {/* Content Area */}
@@ -510,6 +1326,20 @@ const App: React.FC = () => {
               <Code2 className="w-3.5 h-3.5" />
               <span>Source Viewer</span>
             </button>
+            <button
+              onClick={() => setActiveTab('history')}
+              className={`flex items-center space-x-2 px-4 h-full text-xs font-medium border-b-2 transition-colors ${activeTab === 'history' ? 'border-blue-500 text-white bg-zinc-800/50' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}
+            >
+              <History className="w-3.5 h-3.5" />
+              <span>History</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('changes')}
+              className={`flex items-center space-x-2 px-4 h-full text-xs font-medium border-b-2 transition-colors ${activeTab === 'changes' ? 'border-blue-500 text-white bg-zinc-800/50' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}
+            >
+              <GitCommitVertical className="w-3.5 h-3.5" />
+              <span>Changes</span>
+            </button>
             <button
               onClick={() => setActiveTab('logs')}
               className={`flex items-center space-x-2 px-4 h-full text-xs font-medium border-b-2 transition-colors ${activeTab === 'logs' ? 'border-blue-500 text-white bg-zinc-800/50' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}
@@ -517,31 +1347,126 @@ const App: React.FC = () => {
               <Terminal className="w-3.5 h-3.5" />
               <span>Console Logs</span>
             </button>
+            <div className="flex-1" />
+            <button
+              onClick={() => showDiff({ from: 'HEAD', to: WORKDIR })}
+              disabled={!activeRepo?.lastFetched}
+              className="flex items-center space-x-1.5 text-xs text-zinc-500 hover:text-zinc-300 disabled:text-zinc-700 px-2"
+              title="Compare commits, refs or the working tree"
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+              <span>Diff</span>
+            </button>
           </div>
 
           <div className="flex-1 flex overflow-hidden">
             {activeTab === 'code' ? (
-              selectedFile ? (
+              diffRange && activeRepo ? (
+                <DiffViewer repoId={activeRepo.id} range={diffRange} onLog={addLog} onClose={() => setDiffRange(null)} />
+              ) : selectedFile ? (
                 <div className="flex-1 flex flex-col overflow-hidden">
                   <div className="flex items-center justify-between px-4 py-2 bg-zinc-800/30 border-b border-zinc-800">
                     <div className="flex items-center space-x-2 overflow-hidden">
                       <FileText className="w-3.5 h-3.5 text-zinc-500 shrink-0" />
-                      <span className="text-xs text-zinc-400 font-mono truncate">{selectedFile.path.replace('/repo/', '')}</span>
+                      <span className="text-xs text-zinc-400 font-mono truncate">{selectedFile.path}</span>
+                      {dirtyBuffers.has(selectedFile.path) && <span className="text-[10px] text-amber-400 shrink-0">unsaved</span>}
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      {isMarkdownPath(selectedFile.path) && selectedFile.text !== null && !isEditing && (
+                        <button
+                          onClick={() => setShowMarkdownSource(!showMarkdownSource)}
+                          className="flex items-center space-x-1.5 text-[10px] uppercase tracking-wider font-bold text-zinc-400 hover:text-white hover:bg-zinc-800 px-3 py-1.5 rounded-md transition-all"
+                          title={showMarkdownSource ? 'Show rendered preview' : 'Show markdown source'}
+                        >
+                          {showMarkdownSource ? <Eye className="w-3 h-3" /> : <Code2 className="w-3 h-3" />}
+                          <span>{showMarkdownSource ? 'Preview' : 'Source'}</span>
+                        </button>
+                      )}
+                      {selectedFile.kind === 'text' && (
+                        <select
+                          value={selectedFile.encoding ?? ''}
+                          onChange={(e) => handleChangeEncoding(e.target.value)}
+                          disabled={dirtyBuffers.has(selectedFile.path)}
+                          className="bg-transparent text-[10px] uppercase tracking-wider font-bold text-zinc-500 hover:text-zinc-300 disabled:opacity-50 focus:outline-none"
+                          title="Text encoding"
+                        >
+                          {TEXT_ENCODINGS.map(encoding => <option key={encoding} value={encoding} className="bg-zinc-900">{encoding}</option>)}
+                        </select>
+                      )}
+                      {dirtyBuffers.has(selectedFile.path) && (
+                        <>
+                          <button
+                            onClick={() => discardBuffer(selectedFile.path)}
+                            className="flex items-center space-x-1.5 text-[10px] uppercase tracking-wider font-bold text-zinc-400 hover:text-white px-2 py-1.5 rounded-md"
+                            title="Discard unsaved changes"
+                          >
+                            <Undo2 className="w-3 h-3" />
+                            <span>Discard</span>
+                          </button>
+                          <button
+                            onClick={handleSave}
+                            className="flex items-center space-x-1.5 text-[10px] uppercase tracking-wider font-bold bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1.5 rounded-md transition-all active:scale-95"
+                            title="Save (Ctrl+S)"
+                          >
+                            <Save className="w-3 h-3" />
+                            <span>Save</span>
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => setIsEditing(!isEditing)}
+                        disabled={isReadOnly || !isEditable(selectedFile)}
+                        title={isReadOnly ? `${activeRepo!.name} was opened read-only` : isEditable(selectedFile) ? undefined : 'Only complete UTF-8 text files can be edited'}
+                        className={`flex items-center space-x-1.5 text-[10px] uppercase tracking-wider font-bold px-3 py-1.5 rounded-md transition-all ${isEditing ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'} disabled:text-zinc-700 disabled:bg-transparent`}
+                      >
+                        <Pencil className="w-3 h-3" />
+                        <span>{isEditing ? 'Editing' : 'Edit'}</span>
+                      </button>
+                      <button
+                        onClick={handleExplain}
+                        disabled={isExplaining || selectedFile.text === null}
+                        className="flex items-center space-x-2 text-[10px] uppercase tracking-wider font-bold bg-indigo-600 hover:bg-indigo-500 disabled:bg-zinc-700 text-white px-3 py-1.5 rounded-md transition-all shadow-lg active:scale-95"
+                      >
+                        {isExplaining ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                        <span>Ask AI to Explain</span>
+                      </button>
                     </div>
-                    <button
-                      onClick={handleExplain}
-                      disabled={isExplaining}
-                      className="flex items-center space-x-2 text-[10px] uppercase tracking-wider font-bold bg-indigo-600 hover:bg-indigo-500 disabled:bg-zinc-700 text-white px-3 py-1.5 rounded-md transition-all shadow-lg active:scale-95"
-                    >
-                      {isExplaining ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
-                      <span>Ask AI to Explain</span>
-                    </button>
                   </div>
 
+                  {selectedFile.truncated && (
+                    <div className="px-4 py-1.5 text-xs text-amber-400 bg-amber-500/10 border-b border-zinc-800">
+                      Showing the first {formatBytes(MAX_TEXT_BYTES)} of {formatBytes(selectedFile.size)}. Editing is disabled for truncated files.
+                    </div>
+                  )}
+
                   <div className="flex-1 flex overflow-hidden">
-                    <pre className="flex-1 p-6 overflow-auto text-sm font-mono text-zinc-300 selection:bg-blue-500/40 custom-scrollbar leading-relaxed">
-                      <code>{selectedFile.content}</code>
-                    </pre>
+                    {isEditing && isEditable(selectedFile) ? (
+                      <CodeEditor
+                        value={dirtyBuffers.get(selectedFile.path) ?? selectedFile.text!}
+                        onChange={(value) => updateBuffer(selectedFile.path, value)}
+                        onSave={handleSave}
+                      />
+                    ) : selectedFile.tooLarge ? (
+                      <FileTooLarge file={selectedFile} />
+                    ) : selectedFile.kind === 'image' ? (
+                      <ImagePreview file={selectedFile} />
+                    ) : selectedFile.kind === 'binary' ? (
+                      <HexView file={selectedFile} />
+                    ) : isMarkdownPath(selectedFile.path) && !showMarkdownSource && activeRepoId ? (
+                      <MarkdownView
+                        repoId={activeRepoId}
+                        path={selectedFile.path}
+                        content={dirtyBuffers.get(selectedFile.path) ?? selectedFile.text!}
+                        onOpenFile={(path) => handleFileClick(path, false)}
+                      />
+                    ) : (
+                      <CodeView
+                        content={dirtyBuffers.get(selectedFile.path) ?? selectedFile.text!}
+                        path={selectedFile.path}
+                        highlightLine={highlightLine}
+                        lineHref={(line) => fileLinkHash({ repoId: activeRepoId!, path: selectedFile.path, line })}
+                      />
+                    )}
 
                     {/* AI Panel */}
                     {aiExplanation && (
@@ -581,6 +1506,33 @@ const App: React.FC = () => {
                   <p className="max-w-xs text-sm text-zinc-600">Select any file from the sidebar to inspect its contents and use AI for deep analysis.</p>
                 </div>
               )
+            ) : activeTab === 'history' ? (
+              activeRepo?.lastFetched ? (
+                <HistoryPanel key={`${activeRepo.id}-${activeRepo.lastFetched}-${activeRepo.ref}-${headRevision}`} repoId={activeRepo.id} onLog={addLog} onShowDiff={showDiff} runCancellable={runCancellable} />
+              ) : (
+                <div className="flex-1 flex items-center justify-center text-sm text-zinc-600">
+                  Clone a repository to browse its history.
+                </div>
+              )
+            ) : activeTab === 'changes' ? (
+              activeRepo?.lastFetched ? (
+                <ChangesPanel
+                  key={activeRepo.id}
+                  repoId={activeRepo.id}
+                  onLog={addLog}
+                  onShowDiff={showDiff}
+                  runCancellable={runCancellable}
+                  readOnly={isReadOnly}
+                  onCommitted={() => {
+                    setHeadRevision(r => r + 1);
+                    refreshStatus(activeRepo.id);
+                  }}
+                />
+              ) : (
+                <div className="flex-1 flex items-center justify-center text-sm text-zinc-600">
+                  Clone a repository to commit changes.
+                </div>
+              )
             ) : (
               <div className="flex-1 bg-black p-4 font-mono text-xs overflow-y-auto custom-scrollbar flex flex-col-reverse">
                 <div ref={logEndRef} />
@@ -610,18 +1562,10 @@ const App: React.FC = () => {
 
           {/* Status Bar */}
           <footer className="h-6 bg-blue-600 border-t border-blue-500 shrink-0 flex items-center px-4 justify-between text-[10px] text-blue-100 font-medium relative">
-            {syncProgress && (
-              <div className="absolute inset-0 bg-blue-700/50 flex items-center px-4 z-20">
-                <div className="flex-1 h-1.5 bg-blue-900/50 rounded-full overflow-hidden mr-4">
-                  <div
-                    className="h-full bg-emerald-400 transition-all duration-300 ease-out"
-                    style={{ width: `${Math.round((syncProgress.current / syncProgress.total) * 100)}%` }}
-                  />
-                </div>
-                <span className="shrink-0 font-mono">
-                  {Math.round((syncProgress.current / syncProgress.total) * 100)}% ({syncProgress.current}/{syncProgress.total}) - {syncProgress.path}
-                </span>
-              </div>
+            {progress && (
+              <ProgressBar progress={progress}>
+                {isCancellable && <CancelButton onClick={handleCancelOperation} />}
+              </ProgressBar>
             )}
             <div className="flex items-center space-x-4">
               <span className="flex items-center space-x-1.5">
@@ -636,7 +1580,23 @@ const App: React.FC = () => {
               )}
             </div>
             <div className="flex items-center space-x-4">
-              <span>{repoState.branch} @ browser-fs</span>
+              {extensionStatus && (
+                <button
+                  onClick={() => gitService.detectExtension(true).then(setExtensionStatus)}
+                  className={`flex items-center space-x-1 hover:text-white ${extensionStatus.state === 'present' ? '' : 'opacity-60'}`}
+                  title={extensionStatus.state === 'present'
+                    ? 'Requests without the CORS proxy go through the extension. Click to check again.'
+                    : extensionStatus.state === 'outdated'
+                      ? 'The extension is older than this app; reload it from the extension folder. Click to check again.'
+                      : 'Without the extension, servers that block browsers need the CORS proxy. Click to check again.'}
+                >
+                  <Package className="w-3 h-3" />
+                  <span>
+                    {extensionStatus.state === 'present' ? `Bridge v${extensionStatus.version}` : extensionStatus.state === 'outdated' ? `Bridge v${extensionStatus.version} outdated` : 'No bridge'}
+                  </span>
+                </button>
+              )}
+              <span>{activeRepo?.name ?? 'no repo'} · {repoState.branch} @ browser-fs</span>
               <span className="opacity-60">v1.0.0</span>
             </div>
           </footer>
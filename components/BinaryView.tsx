@@ -0,0 +1,74 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileWarning } from 'lucide-react';
+import { formatBytes, MAX_READ_BYTES } from '../services/fileContent';
+import { FileContent } from '../types';
+
+const BYTES_PER_ROW = 16;
+// Rendering every row of a multi-megabyte file would lock up the page
+const HEX_VIEW_LIMIT = 64 * 1024;
+
+export const ImagePreview: React.FC<{ file: FileContent }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [dimensions, setDimensions] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.bytes) return;
+    const objectUrl = URL.createObjectURL(new Blob([file.bytes as BlobPart], { type: file.mime }));
+    setUrl(objectUrl);
+    setDimensions(null);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center overflow-auto p-6 bg-[repeating-conic-gradient(#27272a_0%_25%,#18181b_0%_50%)] bg-[length:20px_20px]">
+      {url && (
+        <img
+          src={url}
+          alt={file.path}
+          className="max-w-full max-h-full object-contain shadow-2xl"
+          onLoad={(e) => setDimensions(`${e.currentTarget.naturalWidth} × ${e.currentTarget.naturalHeight}`)}
+        />
+      )}
+      <p className="mt-4 text-xs text-zinc-500 font-mono">
+        {file.mime} · {formatBytes(file.size)}{dimensions && ` · ${dimensions}`}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Classic offset / hex / ASCII dump of the first HEX_VIEW_LIMIT bytes.
+ */
+export const HexView: React.FC<{ file: FileContent }> = ({ file }) => {
+  const rows = useMemo(() => {
+    const bytes = file.bytes!.subarray(0, HEX_VIEW_LIMIT);
+    const lines: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += BYTES_PER_ROW) {
+      const chunk = bytes.subarray(offset, offset + BYTES_PER_ROW);
+      const hex = Array.from(chunk, b => b.toString(16).padStart(2, '0')).join(' ').padEnd(BYTES_PER_ROW * 3 - 1);
+      const ascii = Array.from(chunk, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+      lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex}  ${ascii}`);
+    }
+    return lines;
+  }, [file]);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-4 py-2 text-xs text-zinc-500 border-b border-zinc-800">
+        Binary file ({file.mime}, {formatBytes(file.size)})
+        {file.size > HEX_VIEW_LIMIT && ` · showing the first ${formatBytes(HEX_VIEW_LIMIT)}`}
+      </div>
+      <pre className="flex-1 p-6 overflow-auto text-xs font-mono text-zinc-400 custom-scrollbar leading-relaxed">
+        {rows.join('\n')}
+      </pre>
+    </div>
+  );
+};
+
+export const FileTooLarge: React.FC<{ file: FileContent }> = ({ file }) => (
+  <div className="flex-1 flex flex-col items-center justify-center text-center p-6 text-zinc-500">
+    <FileWarning className="w-10 h-10 mb-4 text-amber-500/70" />
+    <p className="text-sm text-zinc-300">{file.path} is too large to open in the browser</p>
+    <p className="mt-1 text-xs">It is {formatBytes(file.size)}; files up to {formatBytes(MAX_READ_BYTES)} can be viewed.</p>
+  </div>
+);
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, GitBranch, Loader2, Plus, RefreshCw, Tag } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { LocalRefs, LogEntry, ServerRefs } from '../types';
+
+interface RefOption {
+  name: string;
+  kind: 'local' | 'remote' | 'tag';
+}
+
+export const BranchPicker: React.FC<{
+  url: string;
+  useProxy: boolean;
+  // Set once the active repository has been cloned; picking a ref then switches to it
+  repoId: string | null;
+  value: string;
+  disabled: boolean;
+  onSelect: (ref: string) => void;
+  onCreateBranch: (name: string) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}> = ({ url, useProxy, repoId, value, disabled, onSelect, onCreateBranch, onLog }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The header clips overflow, so the dropdown is positioned against the viewport
+  const [anchor, setAnchor] = useState<{ top: number; left: number } | null>(null);
+  const [query, setQuery] = useState('');
+  const [serverRefs, setServerRefs] = useState<ServerRefs | null>(null);
+  const [localRefs, setLocalRefs] = useState<LocalRefs | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const loadedFor = useRef<string | null>(null);
+
+  const load = async (force = false) => {
+    const key = `${url}|${useProxy}|${repoId}`;
+    if (!url || (!force && loadedFor.current === key)) return;
+    loadedFor.current = key;
+    setIsLoading(true);
+    const [remote, local] = await Promise.allSettled([
+      gitService.listServerRefs(url, useProxy),
+      repoId ? gitService.listRefs(repoId) : Promise.resolve(null),
+    ]);
+    if (remote.status === 'fulfilled') setServerRefs(remote.value);
+    else {
+      setServerRefs(null);
+      onLog(`Could not list remote branches: ${remote.reason?.message}`, 'warn');
+    }
+    setLocalRefs(local.status === 'fulfilled' ? local.value : null);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const options = useMemo(() => {
+    const seen = new Set<string>();
+    const result: RefOption[] = [];
+    const push = (name: string, kind: RefOption['kind']) => {
+      if (seen.has(name)) return;
+      seen.add(name);
+      result.push({ name, kind });
+    };
+    localRefs?.branches.forEach(name => push(name, 'local'));
+    serverRefs?.branches.forEach(name => push(name, 'remote'));
+    localRefs?.remoteBranches.forEach(name => push(name, 'remote'));
+    serverRefs?.tags.forEach(name => push(name, 'tag'));
+    localRefs?.tags.forEach(name => push(name, 'tag'));
+    const q = query.trim().toLowerCase();
+    return q ? result.filter(o => o.name.toLowerCase().includes(q)) : result;
+  }, [serverRefs, localRefs, query]);
+
+  const exactMatch = options.some(o => o.name === query.trim());
+  const pick = (name: string) => {
+    setIsOpen(false);
+    setQuery('');
+    if (name !== value) onSelect(name);
+  };
+
+  return (
+    <div ref={containerRef} className="relative shrink-0">
+      <button
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setAnchor({ top: rect.bottom + 4, left: rect.left });
+          setIsOpen(!isOpen);
+          if (!isOpen) load();
+        }}
+        disabled={disabled}
+        className="w-32 flex items-center justify-between bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 disabled:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all"
+        title={value}
+      >
+        <GitBranch className="w-3.5 h-3.5 mr-1.5 shrink-0 text-zinc-500" />
+        <span className="truncate flex-1 text-left">{value || 'HEAD'}</span>
+        <ChevronDown className="w-3.5 h-3.5 ml-1 shrink-0 text-zinc-500" />
+      </button>
+
+      {isOpen && anchor && (
+        <div
+          style={{ top: anchor.top, left: anchor.left }}
+          className="fixed z-50 w-72 bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl overflow-hidden"
+        >
+          <div className="flex items-center p-2 border-b border-zinc-800 space-x-2">
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && options[0]) pick(options[0].name);
+                if (e.key === 'Escape') setIsOpen(false);
+              }}
+              placeholder="Filter branches and tags"
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            />
+            <button onClick={() => load(true)} className="text-zinc-500 hover:text-zinc-300" title="Reload refs">
+              <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar py-1">
+            {isLoading && options.length === 0 && (
+              <div className="flex items-center justify-center py-4 text-xs text-zinc-500 space-x-2">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                <span>Loading refs...</span>
+              </div>
+            )}
+            {options.map(option => (
+              <button
+                key={`${option.kind}:${option.name}`}
+                onClick={() => pick(option.name)}
+                className={`w-full flex items-center space-x-2 px-3 py-1.5 text-xs text-left hover:bg-blue-600 hover:text-white ${option.name === value ? 'text-blue-300' : 'text-zinc-300'}`}
+              >
+                {option.kind === 'tag' ? <Tag className="w-3 h-3 shrink-0" /> : <GitBranch className="w-3 h-3 shrink-0" />}
+                <span className="truncate flex-1">{option.name}</span>
+                {option.name === serverRefs?.head && <span className="text-[9px] uppercase text-zinc-500">default</span>}
+                {option.kind === 'local' && <span className="text-[9px] uppercase text-zinc-500">local</span>}
+              </button>
+            ))}
+            {!isLoading && options.length === 0 && !query && (
+              <div className="px-3 py-3 text-xs text-zinc-600 italic">No refs found.</div>
+            )}
+            {query.trim() && !exactMatch && (
+              repoId ? (
+                <button
+                  onClick={() => { setIsOpen(false); onCreateBranch(query.trim()); setQuery(''); }}
+                  className="w-full flex items-center space-x-2 px-3 py-1.5 text-xs text-emerald-400 hover:bg-zinc-800"
+                >
+                  <Plus className="w-3 h-3" />
+                  <span>Create branch "{query.trim()}"</span>
+                </button>
+              ) : (
+                <button
+                  onClick={() => pick(query.trim())}
+                  className="w-full flex items-center space-x-2 px-3 py-1.5 text-xs text-zinc-400 hover:bg-zinc-800"
+                >
+                  <span>Use "{query.trim()}"</span>
+                </button>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
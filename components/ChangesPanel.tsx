@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { GitCommit, GitCompare, Loader2, RefreshCw, Upload } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { CancellableRunner, FileStatus, GitAuthor, LogEntry } from '../types';
+import { DiffRange, WORKDIR } from './DiffViewer';
+
+const kindClass: Record<FileStatus['kind'], string> = {
+  added: 'text-emerald-400',
+  untracked: 'text-emerald-400/70',
+  modified: 'text-amber-400',
+  deleted: 'text-red-400',
+};
+
+export const ChangesPanel: React.FC<{
+  repoId: string;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+  onShowDiff: (range: DiffRange) => void;
+  onCommitted: () => void;
+  runCancellable: CancellableRunner;
+  // Status and diffs only, for checkouts opened read-only
+  readOnly?: boolean;
+}> = ({ repoId, onLog, onShowDiff, onCommitted, runCancellable, readOnly = false }) => {
+  const [files, setFiles] = useState<FileStatus[]>([]);
+  const [author, setAuthor] = useState<GitAuthor>({ name: '', email: '' });
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState<'status' | 'commit' | 'push' | null>(null);
+
+  const refresh = useCallback(async () => {
+    setBusy('status');
+    try {
+      setFiles(await gitService.status(repoId));
+    } catch (err: any) {
+      onLog(`Failed to read status: ${err.message}`, 'error');
+    } finally {
+      setBusy(null);
+    }
+  }, [repoId, onLog]);
+
+  useEffect(() => {
+    refresh();
+    gitService.getAuthor(repoId).then(setAuthor).catch(() => { });
+  }, [repoId, refresh]);
+
+  const toggle = async (file: FileStatus) => {
+    try {
+      setFiles(file.staged
+        ? await gitService.unstage(repoId, [file.path])
+        : await gitService.stage(repoId, [file.path]));
+    } catch (err: any) {
+      onLog(`Failed to ${file.staged ? 'unstage' : 'stage'} ${file.path}: ${err.message}`, 'error');
+    }
+  };
+
+  const stageAll = async (stage: boolean) => {
+    const paths = files.filter(f => f.staged !== stage || (stage && f.unstaged)).map(f => f.path);
+    if (paths.length === 0) return;
+    try {
+      setFiles(stage ? await gitService.stage(repoId, paths) : await gitService.unstage(repoId, paths));
+    } catch (err: any) {
+      onLog(`Failed to update the index: ${err.message}`, 'error');
+    }
+  };
+
+  const handleCommit = async () => {
+    setBusy('commit');
+    try {
+      const oid = await gitService.commit(repoId, message.trim(), { name: author.name.trim(), email: author.email.trim() });
+      onLog(`Committed ${oid.slice(0, 7)}: ${message.trim().split('\n')[0]}`, 'success');
+      setMessage('');
+      onCommitted();
+      setFiles(await gitService.status(repoId));
+    } catch (err: any) {
+      onLog(`Commit failed: ${err.message}`, 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePush = async () => {
+    setBusy('push');
+    onLog('Pushing to remote...', 'info');
+    try {
+      await runCancellable((signal, onProgress) => gitService.push(repoId, onProgress, signal));
+      onLog('Push completed!', 'success');
+    } catch (err: any) {
+      if (err.name === 'AbortError') onLog('Push cancelled. The remote may already have received it; check before pushing again.', 'warn');
+      else onLog(`Push failed: ${err.message}`, 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const stagedCount = files.filter(f => f.staged).length;
+  const canCommit = stagedCount > 0 && message.trim() && author.name.trim() && author.email.trim() && !busy;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-zinc-800/30 border-b border-zinc-800 text-xs">
+        <span className="text-zinc-400">{files.length} changed file{files.length === 1 ? '' : 's'}, {stagedCount} staged</span>
+        <div className="flex items-center space-x-3">
+          {!readOnly && (
+            <>
+              <button onClick={() => stageAll(true)} className="text-zinc-400 hover:text-white">Stage all</button>
+              <button onClick={() => stageAll(false)} className="text-zinc-400 hover:text-white">Unstage all</button>
+            </>
+          )}
+          <button onClick={() => onShowDiff({ from: 'HEAD', to: WORKDIR })} className="flex items-center space-x-1 text-zinc-400 hover:text-white">
+            <GitCompare className="w-3.5 h-3.5" />
+            <span>Diff</span>
+          </button>
+          <button onClick={refresh} className="text-zinc-500 hover:text-white" title="Refresh status">
+            <RefreshCw className={`w-3.5 h-3.5 ${busy === 'status' ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar py-1">
+        {files.length === 0 && busy !== 'status' && (
+          <div className="text-center py-8 text-sm text-zinc-600">Working tree clean.</div>
+        )}
+        {files.map(file => (
+          <label key={file.path} className="flex items-center space-x-3 px-4 py-1.5 text-xs font-mono hover:bg-zinc-800/40 cursor-pointer">
+            <input type="checkbox" checked={file.staged} disabled={readOnly} onChange={() => toggle(file)} />
+            <span className={`w-16 uppercase text-[10px] font-bold ${kindClass[file.kind]}`}>{file.kind}</span>
+            <span className="truncate flex-1 text-zinc-300">{file.path}</span>
+            {file.staged && file.unstaged && <span className="text-[10px] text-amber-500/80">partially staged</span>}
+          </label>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <div className="border-t border-zinc-800 p-4 space-y-2 bg-zinc-950/50">
+          <div className="flex space-x-2">
+            <input
+              value={author.name}
+              onChange={(e) => setAuthor(a => ({ ...a, name: e.target.value }))}
+              placeholder="Author name"
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            />
+            <input
+              value={author.email}
+              onChange={(e) => setAuthor(a => ({ ...a, email: e.target.value }))}
+              placeholder="author@example.com"
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            />
+          </div>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Commit message"
+            rows={3}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50 resize-none"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={handleCommit}
+              disabled={!canCommit}
+              className="flex items-center space-x-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-800 disabled:text-zinc-600 text-white px-3 py-1.5 rounded text-xs font-semibold"
+            >
+              {busy === 'commit' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <GitCommit className="w-3.5 h-3.5" />}
+              <span>Commit {stagedCount > 0 ? `(${stagedCount})` : ''}</span>
+            </button>
+            <button
+              onClick={handlePush}
+              disabled={!!busy}
+              className="flex items-center space-x-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 text-zinc-200 px-3 py-1.5 rounded text-xs font-semibold border border-zinc-700"
+            >
+              {busy === 'push' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+              <span>Push</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
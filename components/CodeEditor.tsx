@@ -0,0 +1,38 @@
+import React from 'react';
+
+const INDENT = '  ';
+
+/**
+ * Plain-text editor for the code pane. Tab inserts indentation and Ctrl/Cmd+S saves.
+ */
+export const CodeEditor: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  onSave: () => void;
+}> = ({ value, onChange, onSave }) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave();
+      return;
+    }
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+      requestAnimationFrame(() => el.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+    }
+  };
+
+  return (
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      spellCheck={false}
+      autoFocus
+      className="flex-1 p-6 bg-zinc-950/40 text-sm font-mono text-zinc-200 leading-relaxed resize-none focus:outline-none custom-scrollbar selection:bg-blue-500/40"
+    />
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import 'highlight.js/styles/github-dark.css';
+import { highlightLines } from '../services/syntax';
+
+/**
+ * Read-only code display with syntax highlighting and a line-number gutter.
+ * Renders one element per line so a line can be highlighted and scrolled into
+ * view (e.g. when opening a search result or a #line link).
+ */
+export const CodeView: React.FC<{
+  content: string;
+  path: string;
+  highlightLine?: number | null;
+  // Builds the link for a line number in the gutter
+  lineHref?: (line: number) => string;
+}> = ({ content, path, highlightLine, lineHref }) => {
+  const containerRef = useRef<HTMLPreElement>(null);
+  const lines = useMemo(() => highlightLines(content, path), [content, path]);
+
+  useEffect(() => {
+    if (!highlightLine) return;
+    const el = containerRef.current?.querySelector(`[data-line="${highlightLine}"]`);
+    el?.scrollIntoView({ block: 'center' });
+  }, [highlightLine, content]);
+
+  const gutterWidth = `${String(lines.length).length + 2}ch`;
+
+  return (
+    <pre ref={containerRef} className="flex-1 py-6 overflow-auto text-sm font-mono text-zinc-300 selection:bg-blue-500/40 custom-scrollbar leading-relaxed">
+      <code>
+        {lines.map((html, i) => (
+          <div key={i} data-line={i + 1} className={`flex ${highlightLine === i + 1 ? 'bg-amber-500/15' : ''}`}>
+            <a
+              href={lineHref?.(i + 1)}
+              className="shrink-0 pr-4 text-right text-zinc-600 hover:text-zinc-300 select-none"
+              style={{ width: gutterWidth }}
+            >
+              {i + 1}
+            </a>
+            <span className="pr-6" dangerouslySetInnerHTML={{ __html: html || '\u200b' }} />
+          </div>
+        ))}
+      </code>
+    </pre>
+  );
+};
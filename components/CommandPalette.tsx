@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight, FileText, Loader2 } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { fuzzyMatch } from '../services/fuzzyMatch';
+import { FuzzyMatch } from '../types';
+
+const RESULT_LIMIT = 50;
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  // Shown greyed out with the reason instead of running
+  disabledReason?: string;
+  run: () => void;
+}
+
+const Highlighted: React.FC<{ text: string; positions: number[]; offset?: number }> = ({ text, positions, offset = 0 }) => {
+  const marked = new Set(positions.map(p => p - offset));
+  return (
+    <>
+      {[...text].map((ch, i) => marked.has(i)
+        ? <span key={i} className="text-blue-400 font-semibold">{ch}</span>
+        : ch)}
+    </>
+  );
+};
+
+/**
+ * Quick-open file finder and command palette in one overlay.
+ * A query starting with ">" lists commands, anything else fuzzy-matches file paths.
+ */
+export const CommandPalette: React.FC<{
+  initialMode: 'files' | 'commands';
+  repoId: string | null;
+  commands: PaletteCommand[];
+  onOpenFile: (path: string) => void;
+  onClose: () => void;
+}> = ({ initialMode, repoId, commands, onOpenFile, onClose }) => {
+  const [query, setQuery] = useState(initialMode === 'commands' ? '>' : '');
+  const [files, setFiles] = useState<FuzzyMatch[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef(0);
+
+  const isCommandMode = query.startsWith('>');
+
+  useEffect(() => {
+    if (isCommandMode || !repoId) {
+      setFiles([]);
+      return;
+    }
+    // Ignore answers to queries the user has already typed past
+    const request = ++requestRef.current;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      gitService.findFiles(repoId, query, RESULT_LIMIT)
+        .then(results => { if (request === requestRef.current) setFiles(results); })
+        .catch(() => { if (request === requestRef.current) setFiles([]); })
+        .finally(() => { if (request === requestRef.current) setIsSearching(false); });
+    }, 60);
+    return () => clearTimeout(timer);
+  }, [query, isCommandMode, repoId]);
+
+  const matchedCommands = useMemo(() => {
+    if (!isCommandMode) return [];
+    const q = query.slice(1);
+    return commands
+      .map(command => ({ command, match: fuzzyMatch(q, command.label) }))
+      .filter((m): m is { command: PaletteCommand; match: FuzzyMatch } => m.match !== null)
+      .sort((a, b) => (q ? b.match.score - a.match.score : 0));
+  }, [commands, query, isCommandMode]);
+
+  const count = isCommandMode ? matchedCommands.length : files.length;
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const activate = (index: number) => {
+    if (isCommandMode) {
+      const command = matchedCommands[index]?.command;
+      if (!command || command.disabledReason) return;
+      onClose();
+      command.run();
+    } else if (files[index]) {
+      onClose();
+      onOpenFile(files[index].path);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(s => Math.min(s + 1, count - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(s => Math.max(s - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      activate(selected);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const rowClass = (index: number, disabled = false) =>
+    `w-full flex items-center px-4 py-2 text-left text-sm space-x-3 ${index === selected ? 'bg-blue-600/20' : ''} ${disabled ? 'text-zinc-600 cursor-not-allowed' : 'text-zinc-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center items-start pt-[15vh] bg-black/60" onClick={onClose}>
+      <div className="bg-zinc-900 border border-zinc-700 w-full max-w-xl rounded-xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center px-4 border-b border-zinc-800">
+          {isCommandMode ? <ChevronRight className="w-4 h-4 text-zinc-500" /> : <FileText className="w-4 h-4 text-zinc-500" />}
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={repoId ? 'Search files by name, or type > for commands' : 'Type > for commands'}
+            className="flex-1 bg-transparent px-3 py-3 text-sm text-zinc-100 focus:outline-none placeholder:text-zinc-600"
+          />
+          {isSearching && <Loader2 className="w-4 h-4 text-zinc-500 animate-spin" />}
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-1">
+          {isCommandMode
+            ? matchedCommands.map(({ command, match }, i) => (
+              <button
+                key={command.id}
+                data-index={i}
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => activate(i)}
+                className={rowClass(i, !!command.disabledReason)}
+              >
+                <span className="shrink-0 text-zinc-500">{command.icon}</span>
+                <span className="flex-1 truncate"><Highlighted text={command.label} positions={match.positions} /></span>
+                {command.disabledReason && <span className="text-xs text-zinc-600 truncate">{command.disabledReason}</span>}
+              </button>
+            ))
+            : files.map((file, i) => {
+              const nameStart = file.path.lastIndexOf('/') + 1;
+              return (
+                <button
+                  key={file.path}
+                  data-index={i}
+                  onMouseEnter={() => setSelected(i)}
+                  onClick={() => activate(i)}
+                  className={rowClass(i)}
+                >
+                  <FileText className="w-4 h-4 shrink-0 text-zinc-500" />
+                  <span className="truncate">
+                    <Highlighted text={file.path.slice(nameStart)} positions={file.positions} offset={nameStart} />
+                  </span>
+                  <span className="flex-1 truncate text-xs text-zinc-500">
+                    <Highlighted text={file.path.slice(0, nameStart)} positions={file.positions} />
+                  </span>
+                </button>
+              );
+            })}
+          {count === 0 && !isSearching && (
+            <p className="px-4 py-6 text-center text-sm text-zinc-500">
+              {isCommandMode ? 'No matching commands' : repoId ? 'No matching files' : 'Clone a repository to search its files'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
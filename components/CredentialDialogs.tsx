@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Lock, LockOpen, Trash2, X } from 'lucide-react';
+import { credentialService } from '../services/credentialService';
+import { AuthRequest, GitCredential } from '../types';
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-zinc-600';
+
+export const AuthPromptModal: React.FC<{
+  request: AuthRequest;
+  onResolve: (credential: GitCredential | null) => void;
+}> = ({ request, onResolve }) => {
+  const [hasVault, setHasVault] = useState(false);
+  const [hasSaved, setHasSaved] = useState(false);
+  const [mode, setMode] = useState<'unlock' | 'enter'>('enter');
+  const [passphrase, setPassphrase] = useState('');
+  const [username, setUsername] = useState('');
+  const [token, setToken] = useState('');
+  const [remember, setRemember] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    Promise.all([credentialService.hasVault(), credentialService.listHosts()]).then(([vault, hosts]) => {
+      const saved = hosts.includes(request.host);
+      setHasVault(vault);
+      setHasSaved(saved);
+      // Offer to unlock saved credentials unless the server just rejected them
+      setMode(saved && !request.failed && !credentialService.isUnlocked ? 'unlock' : 'enter');
+    });
+  }, [request]);
+
+  const needsPassphrase = mode === 'unlock' || (remember && !credentialService.isUnlocked);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsBusy(true);
+    try {
+      if (needsPassphrase) await credentialService.unlock(passphrase);
+      if (mode === 'unlock') {
+        const saved = await credentialService.get(request.host);
+        if (!saved) throw new Error(`No saved credentials for ${request.host}`);
+        onResolve(saved);
+        return;
+      }
+      const credential = { username: username.trim(), token };
+      if (remember) await credentialService.save(request.host, credential);
+      onResolve(credential);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="bg-zinc-900 border border-zinc-800 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5 text-blue-500" />
+            <h2 className="text-lg font-bold">Sign in to {request.host}</h2>
+          </div>
+          <button type="button" onClick={() => onResolve(null)} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {request.failed && (
+            <p className="text-sm text-amber-400">The server rejected the credentials for {request.host}. Enter a new username and token.</p>
+          )}
+          {mode === 'unlock' ? (
+            <p className="text-sm text-zinc-400">
+              Saved credentials exist for this host. Enter your vault passphrase to use them, or{' '}
+              <button type="button" onClick={() => setMode('enter')} className="text-blue-400 hover:text-blue-300">enter different ones</button>.
+            </p>
+          ) : (
+            <>
+              <input autoFocus value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" className={inputClass} />
+              <input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="Personal access token" className={inputClass} />
+              <label className="flex items-center space-x-2 text-sm text-zinc-400 cursor-pointer">
+                <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+                <span>Remember for {request.host}{hasSaved ? ' (replaces saved credentials)' : ''}</span>
+              </label>
+            </>
+          )}
+          {needsPassphrase && (
+            <input
+              autoFocus={mode === 'unlock'}
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={hasVault ? 'Vault passphrase' : 'Choose a vault passphrase'}
+              className={inputClass}
+            />
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-4 bg-zinc-950 border-t border-zinc-800 flex justify-end space-x-2">
+          <button type="button" onClick={() => onResolve(null)} className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isBusy || (mode === 'enter' && (!username.trim() || !token)) || (needsPassphrase && !passphrase)}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 text-white px-6 py-2 rounded-lg text-sm font-bold transition-all"
+          >
+            {mode === 'unlock' ? 'Unlock' : 'Sign in'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export const CredentialManagerModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+  const [hosts, setHosts] = useState<string[]>([]);
+  const [isUnlocked, setIsUnlocked] = useState(credentialService.isUnlocked);
+
+  const refresh = () => {
+    credentialService.listHosts().then(setHosts);
+    setIsUnlocked(credentialService.isUnlocked);
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-zinc-900 border border-zinc-800 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5 text-blue-500" />
+            <h2 className="text-lg font-bold">Saved Credentials</h2>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 space-y-2">
+          {hosts.length === 0 && <p className="text-sm text-zinc-500">No credentials saved yet. You will be asked to sign in when a repository needs it.</p>}
+          {hosts.map(host => (
+            <div key={host} className="flex items-center justify-between bg-zinc-800/50 rounded-lg px-3 py-2">
+              <span className="text-sm font-mono text-zinc-300">{host}</span>
+              <button
+                onClick={async () => { await credentialService.remove(host); refresh(); }}
+                className="text-zinc-500 hover:text-red-400"
+                title={`Forget ${host}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 bg-zinc-950 border-t border-zinc-800 flex items-center justify-between">
+          <span className="flex items-center space-x-1.5 text-xs text-zinc-500">
+            {isUnlocked ? <LockOpen className="w-3.5 h-3.5 text-emerald-500" /> : <Lock className="w-3.5 h-3.5" />}
+            <span>{isUnlocked ? 'Vault unlocked for this session' : 'Vault locked'}</span>
+          </span>
+          <div className="flex space-x-2">
+            {isUnlocked && (
+              <button onClick={() => { credentialService.lock(); refresh(); }} className="px-3 py-1.5 rounded-lg text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700">
+                Lock
+              </button>
+            )}
+            {hosts.length > 0 && (
+              <button
+                onClick={async () => {
+                  if (!window.confirm('Forget all saved credentials and the vault passphrase?')) return;
+                  await credentialService.reset();
+                  refresh();
+                }}
+                className="px-3 py-1.5 rounded-lg text-xs text-red-300 bg-red-500/10 hover:bg-red-500/20"
+              >
+                Forget all
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
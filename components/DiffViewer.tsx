@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Columns2, Loader2, Rows2, X } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { DiffHunk, DiffLine, FileDiff, LogEntry } from '../types';
+
+export const WORKDIR = 'WORKDIR';
+
+export interface DiffRange {
+  from: string | null;
+  to: string;
+}
+
+const lineClass = (type?: DiffLine['type']) => {
+  if (type === 'add') return 'bg-emerald-500/10 text-emerald-200';
+  if (type === 'del') return 'bg-red-500/10 text-red-200';
+  return 'text-zinc-400';
+};
+
+const UnifiedHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => (
+  <>
+    {hunk.lines.map((line, i) => (
+      <tr key={i} className={lineClass(line.type)}>
+        <td className="w-12 pr-2 text-right text-zinc-600 select-none">{line.oldNo ?? ''}</td>
+        <td className="w-12 pr-2 text-right text-zinc-600 select-none">{line.newNo ?? ''}</td>
+        <td className="w-4 select-none">{line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' '}</td>
+        <td className="whitespace-pre">{line.text}</td>
+      </tr>
+    ))}
+  </>
+);
+
+// Pairs runs of deletions with the additions that follow them so they line up side by side
+function toSplitRows(hunk: DiffHunk): [DiffLine | null, DiffLine | null][] {
+  const rows: [DiffLine | null, DiffLine | null][] = [];
+  let dels: DiffLine[] = [];
+  let adds: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i++) rows.push([dels[i] ?? null, adds[i] ?? null]);
+    dels = [];
+    adds = [];
+  };
+  for (const line of hunk.lines) {
+    if (line.type === 'del') {
+      if (adds.length) flush();
+      dels.push(line);
+    } else if (line.type === 'add') {
+      adds.push(line);
+    } else {
+      flush();
+      rows.push([line, line]);
+    }
+  }
+  flush();
+  return rows;
+}
+
+const SplitHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => (
+  <>
+    {toSplitRows(hunk).map(([left, right], i) => (
+      <tr key={i}>
+        <td className="w-12 pr-2 text-right text-zinc-600 select-none">{left?.oldNo ?? ''}</td>
+        <td className={`w-1/2 whitespace-pre ${left ? lineClass(left.type) : 'bg-zinc-800/30'}`}>{left?.text ?? ''}</td>
+        <td className="w-12 pr-2 text-right text-zinc-600 select-none border-l border-zinc-800">{right?.newNo ?? ''}</td>
+        <td className={`w-1/2 whitespace-pre ${right ? lineClass(right.type) : 'bg-zinc-800/30'}`}>{right?.text ?? ''}</td>
+      </tr>
+    ))}
+  </>
+);
+
+const FileDiffView: React.FC<{ file: FileDiff; split: boolean }> = ({ file, split }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const badge = file.type === 'added' ? 'text-emerald-400' : file.type === 'deleted' ? 'text-red-400' : 'text-amber-400';
+
+  return (
+    <div className="border border-zinc-800 rounded-lg overflow-hidden mb-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center space-x-2 px-3 py-2 bg-zinc-800/50 text-xs font-mono text-zinc-300 hover:bg-zinc-800"
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <span className={`uppercase text-[10px] font-bold ${badge}`}>{file.type}</span>
+        <span className="truncate">{file.path}</span>
+      </button>
+      {isOpen && (
+        file.binary || file.tooLarge ? (
+          <div className="px-4 py-3 text-xs text-zinc-500 italic">
+            {file.binary ? 'Binary file changed.' : 'File is too large to diff.'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-xs font-mono border-collapse">
+              <tbody>
+                {file.hunks.map((hunk, i) => (
+                  <React.Fragment key={i}>
+                    <tr className="bg-blue-500/10 text-blue-300">
+                      <td colSpan={4} className="px-3 py-1 select-none">
+                        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                      </td>
+                    </tr>
+                    {split ? <SplitHunk hunk={hunk} /> : <UnifiedHunk hunk={hunk} />}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export const DiffViewer: React.FC<{
+  repoId: string;
+  range: DiffRange;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+  onClose: () => void;
+}> = ({ repoId, range, onLog, onClose }) => {
+  const [from, setFrom] = useState(range.from ?? '');
+  const [to, setTo] = useState(range.to);
+  const [files, setFiles] = useState<FileDiff[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [split, setSplit] = useState(false);
+
+  const runDiff = useCallback(async (fromRef: string | null, toRef: string) => {
+    setIsLoading(true);
+    try {
+      setFiles(await gitService.diff(repoId, fromRef, toRef));
+    } catch (err: any) {
+      onLog(`Diff failed: ${err.message}`, 'error');
+      setFiles(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [repoId, onLog]);
+
+  useEffect(() => {
+    setFrom(range.from ?? '');
+    setTo(range.to);
+    runDiff(range.from, range.to);
+  }, [range, runDiff]);
+
+  const presets: { label: string; from: string; to: string }[] = [
+    { label: 'Working tree', from: 'HEAD', to: WORKDIR },
+    { label: 'Last pull', from: 'ORIG_HEAD', to: 'HEAD' },
+  ];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center space-x-2 px-4 py-2 bg-zinc-800/30 border-b border-zinc-800 text-xs">
+        <input
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          placeholder="empty tree"
+          className="w-36 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 font-mono text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+        />
+        <span className="text-zinc-600">..</span>
+        <input
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          placeholder="HEAD"
+          className="w-36 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 font-mono text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+        />
+        <button
+          onClick={() => runDiff(from.trim() || null, to.trim() || 'HEAD')}
+          disabled={isLoading}
+          className="bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 text-white px-3 py-1 rounded font-semibold"
+        >
+          Compare
+        </button>
+        {presets.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => { setFrom(preset.from); setTo(preset.to); runDiff(preset.from, preset.to); }}
+            className="text-zinc-400 hover:text-white px-2 py-1 rounded hover:bg-zinc-800"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          onClick={() => setSplit(!split)}
+          className="flex items-center space-x-1 text-zinc-400 hover:text-white px-2 py-1 rounded hover:bg-zinc-800"
+          title={split ? 'Unified view' : 'Side-by-side view'}
+        >
+          {split ? <Rows2 className="w-3.5 h-3.5" /> : <Columns2 className="w-3.5 h-3.5" />}
+          <span>{split ? 'Unified' : 'Split'}</span>
+        </button>
+        <button onClick={onClose} className="text-zinc-500 hover:text-white p-1" title="Close diff">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+        {isLoading && (
+          <div className="flex items-center justify-center py-8 text-xs text-zinc-500 space-x-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Computing diff...</span>
+          </div>
+        )}
+        {!isLoading && files?.length === 0 && (
+          <div className="text-center py-8 text-sm text-zinc-600">No differences.</div>
+        )}
+        {!isLoading && files?.map(file => <FileDiffView key={file.path} file={file} split={split} />)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GitCommit, GitCompare, Loader2, FilePlus, FileMinus, FileText } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { CancellableRunner, CommitEntry, FileChange, LogEntry } from '../types';
+import { DiffRange } from './DiffViewer';
+
+const PAGE_SIZE = 30;
+
+const changeIcon = (type: FileChange['type']) => {
+  if (type === 'added') return <FilePlus className="w-3 h-3 text-emerald-400 shrink-0" />;
+  if (type === 'deleted') return <FileMinus className="w-3 h-3 text-red-400 shrink-0" />;
+  return <FileText className="w-3 h-3 text-amber-400 shrink-0" />;
+};
+
+const CommitRow: React.FC<{
+  commit: CommitEntry;
+  compareBase: string | null;
+  onSetBase: (oid: string | null) => void;
+  onShowDiff: (range: DiffRange) => void;
+}> = ({ commit, compareBase, onSetBase, onShowDiff }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [subject, ...body] = commit.message.trim().split('\n');
+
+  return (
+    <div className="border-b border-zinc-800/70 px-4 py-3 hover:bg-zinc-800/30 transition-colors">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full text-left flex items-start space-x-3">
+        <GitCommit className="w-4 h-4 text-blue-400 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm text-zinc-200 truncate">{subject}</div>
+          <div className="text-[11px] text-zinc-500 mt-0.5 flex items-center space-x-2">
+            <span className="font-medium text-zinc-400">{commit.author.name}</span>
+            <span>{new Date(commit.author.timestamp * 1000).toLocaleString()}</span>
+            <span className="font-mono text-zinc-600">{commit.oid.slice(0, 7)}</span>
+            <span className="text-zinc-600">
+              {commit.files ? `${commit.files.length} file${commit.files.length === 1 ? '' : 's'}` : 'shallow'}
+            </span>
+          </div>
+        </div>
+      </button>
+      {isOpen && (
+        <div className="mt-2 ml-7 space-y-1">
+          {body.join('\n').trim() && (
+            <pre className="text-xs text-zinc-400 whitespace-pre-wrap font-sans mb-2">{body.join('\n').trim()}</pre>
+          )}
+          <div className="flex items-center space-x-3 mb-2 text-[11px]">
+            <button
+              onClick={() => onShowDiff({ from: commit.parents[0] ?? null, to: commit.oid })}
+              className="flex items-center space-x-1 text-blue-400 hover:text-blue-300"
+            >
+              <GitCompare className="w-3 h-3" />
+              <span>View diff</span>
+            </button>
+            {compareBase && compareBase !== commit.oid && (
+              <button
+                onClick={() => onShowDiff({ from: compareBase, to: commit.oid })}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                Compare with {compareBase.slice(0, 7)}
+              </button>
+            )}
+            <button
+              onClick={() => onSetBase(compareBase === commit.oid ? null : commit.oid)}
+              className="text-zinc-500 hover:text-zinc-300"
+            >
+              {compareBase === commit.oid ? 'Clear compare base' : 'Set as compare base'}
+            </button>
+          </div>
+          {commit.files === null && (
+            <div className="text-xs text-zinc-600 italic">Parent commit is outside the shallow clone.</div>
+          )}
+          {commit.files?.map(file => (
+            <div key={file.path} className="flex items-center space-x-2 text-xs font-mono text-zinc-400">
+              {changeIcon(file.type)}
+              <span className="truncate">{file.path}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const HistoryPanel: React.FC<{
+  repoId: string;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+  onShowDiff: (range: DiffRange) => void;
+  // Loading a page may fetch more history from the remote, which can be cancelled
+  runCancellable: CancellableRunner;
+}> = ({ repoId, onLog, onShowDiff, runCancellable }) => {
+  const [commits, setCommits] = useState<CommitEntry[]>([]);
+  const [compareBase, setCompareBase] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const loadingRef = useRef(false);
+
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current || !hasMore) return;
+    loadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const page = await runCancellable((signal, onProgress) => gitService.log(repoId, commits.length, PAGE_SIZE, onProgress, signal));
+      if (page.deepened) onLog('Fetched more history from the remote.', 'info');
+      setCommits(prev => [...prev, ...page.commits]);
+      setHasMore(page.hasMore);
+    } catch (err: any) {
+      if (err.name === 'AbortError') onLog('Fetching more history cancelled', 'warn');
+      else onLog(`Failed to load history: ${err.message}`, 'error');
+      setHasMore(false);
+    } finally {
+      loadingRef.current = false;
+      setIsLoading(false);
+    }
+  }, [repoId, commits.length, hasMore, onLog, runCancellable]);
+
+  useEffect(() => {
+    if (commits.length === 0) loadMore();
+  }, [commits.length, loadMore]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (el.scrollTop + el.clientHeight > el.scrollHeight - 200) loadMore();
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar" onScroll={handleScroll}>
+      {commits.map(commit => (
+        <CommitRow
+          key={commit.oid}
+          commit={commit}
+          compareBase={compareBase}
+          onSetBase={setCompareBase}
+          onShowDiff={onShowDiff}
+        />
+      ))}
+      {isLoading && (
+        <div className="flex items-center justify-center py-4 text-xs text-zinc-500 space-x-2">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          <span>Loading history...</span>
+        </div>
+      )}
+      {!isLoading && hasMore && commits.length > 0 && (
+        <button onClick={loadMore} className="w-full py-3 text-xs text-zinc-500 hover:text-zinc-300">
+          Load older commits
+        </button>
+      )}
+      {!isLoading && !hasMore && (
+        <div className="py-4 text-center text-xs text-zinc-600 italic">
+          {commits.length === 0 ? 'No commits yet.' : 'Beginning of history.'}
+        </div>
+      )}
+    </div>
+  );
+};
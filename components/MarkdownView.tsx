@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { gitService } from '../services/gitService';
+
+const isRelativeUrl = (url: string) => !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(url);
+
+// Resolves a link inside the markdown file against the repo, or null if it leaves the repo
+function resolveRepoPath(fromPath: string, url: string): string | null {
+  let clean: string;
+  try {
+    clean = decodeURIComponent(url.split(/[?#]/)[0]);
+  } catch (e) {
+    return null;
+  }
+  if (!clean) return null;
+  const parts = clean.startsWith('/') ? [] : fromPath.split('/').slice(0, -1);
+  for (const part of clean.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      if (!parts.length) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * Rendered markdown preview. Relative images are loaded from the repo's working
+ * tree and relative links open the target file in the code pane.
+ */
+export const MarkdownView: React.FC<{
+  repoId: string;
+  path: string;
+  content: string;
+  onOpenFile: (path: string) => void;
+}> = ({ repoId, path, content, onOpenFile }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Sanitized into an inert fragment, so relative image URLs never hit the network
+  const fragment = useMemo(() => {
+    const html = marked.parse(content, { async: false, gfm: true }) as string;
+    const dom = DOMPurify.sanitize(html, { RETURN_DOM_FRAGMENT: true });
+    dom.querySelectorAll('img').forEach(img => {
+      const src = img.getAttribute('src');
+      if (src && isRelativeUrl(src)) {
+        img.removeAttribute('src');
+        img.dataset.repoSrc = src;
+      }
+    });
+    dom.querySelectorAll('a[href]').forEach(a => {
+      if (!isRelativeUrl(a.getAttribute('href')!)) {
+        a.setAttribute('target', '_blank');
+        a.setAttribute('rel', 'noopener noreferrer');
+      }
+    });
+    return dom;
+  }, [content]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.replaceChildren(fragment.cloneNode(true));
+
+    let cancelled = false;
+    const objectUrls: string[] = [];
+    container.querySelectorAll<HTMLImageElement>('img[data-repo-src]').forEach(async img => {
+      const target = resolveRepoPath(path, img.dataset.repoSrc!);
+      if (!target) return;
+      try {
+        const file = await gitService.readFile(repoId, target);
+        if (cancelled || file.kind !== 'image' || !file.bytes) return;
+        const url = URL.createObjectURL(new Blob([file.bytes as BlobPart], { type: file.mime }));
+        objectUrls.push(url);
+        img.src = url;
+      } catch (e) {
+        // Missing images just stay broken, like on a forge
+      }
+    });
+    return () => {
+      cancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [fragment, repoId, path]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    const anchor = (e.target as HTMLElement).closest('a');
+    const href = anchor?.getAttribute('href');
+    if (!href || !isRelativeUrl(href)) return;
+    e.preventDefault();
+    const target = resolveRepoPath(path, href);
+    if (target) onOpenFile(target);
+  };
+
+  return (
+    <div className="flex-1 overflow-auto custom-scrollbar">
+      <div ref={containerRef} onClick={handleClick} className="markdown-body max-w-4xl mx-auto px-8 py-6" />
+    </div>
+  );
+};
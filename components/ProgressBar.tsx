@@ -0,0 +1,55 @@
+import React, { useRef } from 'react';
+import { formatBytes } from '../services/fileContent';
+import { OperationProgress } from '../types';
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/**
+ * Status bar progress for clone, pull and sync. The ETA extrapolates how fast the
+ * current phase has advanced since it started; phases of unknown size get an
+ * indeterminate bar and no ETA.
+ */
+export const ProgressBar: React.FC<{ progress: OperationProgress; children?: React.ReactNode }> = ({ progress, children }) => {
+  const phaseStart = useRef({ phase: '', at: 0, loaded: 0 });
+  if (phaseStart.current.phase !== progress.phase) {
+    phaseStart.current = { phase: progress.phase, at: Date.now(), loaded: progress.loaded };
+  }
+
+  const { phase, loaded, total, bytes, rate, path } = progress;
+  const percent = total ? Math.min(100, Math.round((loaded / total) * 100)) : null;
+
+  let eta: number | null = null;
+  const elapsed = (Date.now() - phaseStart.current.at) / 1000;
+  const advanced = loaded - phaseStart.current.loaded;
+  if (total && loaded < total && advanced > 0 && elapsed >= 1) {
+    eta = (elapsed / advanced) * (total - loaded);
+  }
+
+  return (
+    <div className="absolute inset-0 bg-blue-700/50 flex items-center px-4 z-20">
+      <div className="flex-1 h-1.5 bg-blue-900/50 rounded-full overflow-hidden mr-4">
+        {percent === null ? (
+          <div className="h-full w-1/3 bg-emerald-400/70 animate-pulse" />
+        ) : (
+          <div
+            className="h-full bg-emerald-400 transition-all duration-300 ease-out"
+            style={{ width: `${percent}%` }}
+          />
+        )}
+      </div>
+      <span className="shrink-0 font-mono truncate max-w-[60%]">
+        {phase}
+        {percent !== null ? ` ${percent}% (${loaded}/${total})` : loaded > 0 ? ` ${loaded}` : ''}
+        {bytes > 0 && ` · ${formatBytes(bytes)}`}
+        {rate !== null && ` · ${formatBytes(rate)}/s`}
+        {eta !== null && ` · ${formatDuration(eta)} left`}
+        {path && ` - ${path}`}
+      </span>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, Globe, Loader2, X, XCircle } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { LogEntry, ProxyHealth } from '../types';
+
+const parseEndpoints = (text: string) => text.split(/\s+/).filter(Boolean);
+
+/**
+ * Editor for the CORS proxies used when "CORS Proxy" is switched on, one URL per line
+ * in order of preference, and for how often failed git requests are retried. Check
+ * probes the list as typed, before it is saved.
+ */
+export const ProxySettingsDialog: React.FC<{
+  onClose: () => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}> = ({ onClose, onLog }) => {
+  const [endpoints, setEndpoints] = useState('');
+  const [retries, setRetries] = useState(3);
+  const [health, setHealth] = useState<ProxyHealth[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    gitService.getProxySettings().then(settings => {
+      setEndpoints(settings.endpoints.join('\n'));
+      setRetries(settings.retries);
+    }).catch(err => onLog(`Failed to load proxy settings: ${err.message}`, 'error'))
+      .finally(() => setIsLoading(false));
+  }, [onLog]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      setHealth(await gitService.checkProxies(parseEndpoints(endpoints)));
+    } catch (err: any) {
+      onLog(`Proxy check failed: ${err.message}`, 'error');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const settings = await gitService.setProxySettings({ endpoints: parseEndpoints(endpoints), retries });
+      onLog(`Saved ${settings.endpoints.length} CORS prox${settings.endpoints.length === 1 ? 'y' : 'ies'}`, 'success');
+      onClose();
+    } catch (err: any) {
+      onLog(`Failed to save proxy settings: ${err.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-zinc-900 border border-zinc-800 w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <Globe className="w-5 h-5 text-blue-500" />
+            <h2 className="text-lg font-bold">Network</h2>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-10 flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-zinc-500" /></div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <label className="block space-y-1.5">
+              <span className="text-xs font-semibold text-zinc-300">Endpoints</span>
+              <textarea
+                value={endpoints}
+                onChange={(e) => { setEndpoints(e.target.value); setHealth(null); }}
+                placeholder={'/cors-proxy\nhttp://localhost:9999'}
+                className="w-full h-24 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-xs font-mono text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-zinc-600 resize-none"
+              />
+              <span className="block text-[11px] text-zinc-500">
+                Tried top to bottom; a proxy that fails is skipped for a minute. Run <code className="text-zinc-400">npm run proxy</code> for
+                your own on port 9999, or use <code className="text-zinc-400">/cors-proxy</code> with the dev server.
+              </span>
+            </label>
+            <label className="flex items-center justify-between space-x-4">
+              <span className="space-y-0.5">
+                <span className="block text-xs font-semibold text-zinc-300">Retries</span>
+                <span className="block text-[11px] text-zinc-500">
+                  How often a clone, pull or ref listing is repeated after a network error or a 5xx, waiting longer each time. Pushes are never repeated.
+                </span>
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={retries}
+                onChange={(e) => setRetries(Math.max(0, Math.min(10, Math.round(Number(e.target.value) || 0))))}
+                className="w-16 shrink-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs font-mono text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+            </label>
+            {health && (
+              <ul className="space-y-1 text-xs font-mono">
+                {health.length === 0 && <li className="text-zinc-500 italic">No endpoints to check</li>}
+                {health.map(h => (
+                  <li key={h.url} className="flex items-center space-x-2">
+                    {h.ok ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500 shrink-0" /> : <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />}
+                    <span className="truncate text-zinc-300">{h.url}</span>
+                    <span className="shrink-0 text-zinc-500">{h.ok ? `${h.latencyMs} ms` : h.error}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="p-4 bg-zinc-950 border-t border-zinc-800 flex justify-end space-x-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleCheck}
+            disabled={isLoading || isChecking}
+            className="px-4 py-2 rounded-lg text-sm border border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-500 disabled:text-zinc-600 transition-all"
+          >
+            {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Check'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 text-white px-6 py-2 rounded-lg text-sm font-bold transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
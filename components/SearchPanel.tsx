@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CaseSensitive, FileText, Loader2, Regex, Search, X } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { parseGlobList } from '../services/globMatch';
+import { LogEntry, SearchMatch, SearchSummary } from '../types';
+
+const MAX_RESULTS = 2000;
+
+const Preview: React.FC<{ match: SearchMatch }> = ({ match }) => {
+  const start = match.column - 1;
+  const end = start + match.length;
+  return (
+    <span className="truncate">
+      {match.preview.slice(0, start).trimStart()}
+      <mark className="bg-amber-500/30 text-amber-100 rounded-sm">{match.preview.slice(start, end)}</mark>
+      {match.preview.slice(end)}
+    </span>
+  );
+};
+
+export const SearchPanel: React.FC<{
+  repoId: string;
+  onOpenMatch: (path: string, line: number) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}> = ({ repoId, onOpenMatch, onLog }) => {
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [summary, setSummary] = useState<SearchSummary | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop any running search when the panel goes away or the repo changes
+  useEffect(() => () => controllerRef.current?.abort(), [repoId]);
+
+  const runSearch = async () => {
+    controllerRef.current?.abort();
+    if (!query) return;
+    if (regex) {
+      try { new RegExp(query); } catch (err: any) {
+        onLog(`Invalid regular expression: ${err.message}`, 'error');
+        return;
+      }
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setMatches([]);
+    setSummary(null);
+    setIsSearching(true);
+    try {
+      const result = await gitService.search(repoId, {
+        query, regex, caseSensitive,
+        include: parseGlobList(include),
+        exclude: parseGlobList(exclude),
+        maxResults: MAX_RESULTS,
+      }, batch => setMatches(prev => [...prev, ...batch]), controller.signal);
+      setSummary(result);
+    } catch (err: any) {
+      if (err.name !== 'AbortError') onLog(`Search failed: ${err.message}`, 'error');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsSearching(false);
+      }
+    }
+  };
+
+  const grouped = useMemo(() => {
+    const byPath = new Map<string, SearchMatch[]>();
+    for (const match of matches) {
+      if (!byPath.has(match.path)) byPath.set(match.path, []);
+      byPath.get(match.path)!.push(match);
+    }
+    return Array.from(byPath.entries());
+  }, [matches]);
+
+  const toggleClass = (active: boolean) =>
+    `p-1 rounded ${active ? 'bg-blue-600/40 text-blue-200' : 'text-zinc-500 hover:text-zinc-300'}`;
+  const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50 placeholder:text-zinc-600';
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <form className="p-2 space-y-1.5 border-b border-zinc-900" onSubmit={(e) => { e.preventDefault(); runSearch(); }}>
+        <div className="flex items-center space-x-1">
+          <input autoFocus value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search" className={inputClass} />
+          <button type="button" onClick={() => setCaseSensitive(!caseSensitive)} className={toggleClass(caseSensitive)} title="Match case">
+            <CaseSensitive className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" onClick={() => setRegex(!regex)} className={toggleClass(regex)} title="Use regular expression">
+            <Regex className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <input value={include} onChange={(e) => setInclude(e.target.value)} placeholder="files to include (e.g. src/**, *.ts)" className={inputClass} />
+        <input value={exclude} onChange={(e) => setExclude(e.target.value)} placeholder="files to exclude" className={inputClass} />
+        <div className="flex items-center justify-between text-[10px] text-zinc-500">
+          <span>
+            {isSearching
+              ? `${matches.length} matches so far...`
+              : summary && `${summary.matches} matches in ${summary.filesSearched} files${summary.truncated ? ` (first ${MAX_RESULTS})` : ''}`}
+          </span>
+          {isSearching ? (
+            <button type="button" onClick={() => controllerRef.current?.abort()} className="flex items-center space-x-1 text-zinc-400 hover:text-white">
+              <X className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+          ) : (
+            <button type="submit" disabled={!query} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300 disabled:text-zinc-700">
+              <Search className="w-3 h-3" />
+              <span>Search</span>
+            </button>
+          )}
+        </div>
+      </form>
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-1">
+        {isSearching && matches.length === 0 && (
+          <div className="flex justify-center py-4"><Loader2 className="w-4 h-4 animate-spin text-zinc-600" /></div>
+        )}
+        {grouped.map(([path, fileMatches]) => (
+          <div key={path} className="mb-1">
+            <div className="flex items-center px-2 py-1 text-xs text-zinc-300 font-medium">
+              <FileText className="w-3 h-3 mr-1.5 shrink-0 opacity-60" />
+              <span className="truncate">{path}</span>
+              <span className="ml-auto pl-2 text-[10px] text-zinc-600">{fileMatches.length}</span>
+            </div>
+            {fileMatches.map(match => (
+              <button
+                key={`${match.line}:${match.column}`}
+                onClick={() => onOpenMatch(match.path, match.line)}
+                className="w-full flex items-center space-x-2 pl-6 pr-2 py-0.5 text-[11px] font-mono text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 rounded text-left"
+              >
+                <span className="text-zinc-600 shrink-0">{match.line}</span>
+                <Preview match={match} />
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
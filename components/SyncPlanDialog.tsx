@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { FilePlus, FileX, FileDiff, RefreshCw, X } from 'lucide-react';
+import { formatBytes } from '../services/fileContent';
+import { SyncPlan, SyncPlanEntry } from '../types';
+
+const GROUPS: { action: SyncPlanEntry['action']; label: string; icon: React.ReactNode; localLabel: string }[] = [
+  { action: 'create', label: 'Create', icon: <FilePlus className="w-4 h-4 text-emerald-400" />, localLabel: '' },
+  { action: 'update', label: 'Update', icon: <FileDiff className="w-4 h-4 text-amber-400" />, localLabel: 'overwrites local edits' },
+  { action: 'delete', label: 'Delete', icon: <FileX className="w-4 h-4 text-red-400" />, localLabel: 'not synced by us' },
+];
+
+/**
+ * Review step for a sync to the local folder. Every planned write and deletion is
+ * listed and can be unchecked; entries that would destroy local work start unchecked.
+ */
+export const SyncPlanDialog: React.FC<{
+  plan: SyncPlan;
+  folderName: string;
+  onApply: (entries: SyncPlanEntry[]) => void;
+  onCancel: () => void;
+}> = ({ plan, folderName, onApply, onCancel }) => {
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(plan.entries.filter(e => !e.localChanges).map(e => e.path))
+  );
+
+  const groups = useMemo(() => GROUPS
+    .map(group => ({ ...group, entries: plan.entries.filter(e => e.action === group.action) }))
+    .filter(group => group.entries.length > 0), [plan]);
+
+  const approved = plan.entries.filter(e => selected.has(e.path));
+  const approvedBytes = approved.reduce((sum, e) => sum + e.bytes, 0);
+
+  const toggle = (paths: string[], checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const path of paths) {
+        if (checked) next.add(path);
+        else next.delete(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <RefreshCw className="w-5 h-5 text-emerald-500" />
+            <h2 className="text-lg font-bold">Review sync to {folderName}</h2>
+          </div>
+          <button onClick={onCancel} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 text-xs text-zinc-500 border-b border-zinc-800">
+          {groups.map(g => `${g.entries.length} to ${g.label.toLowerCase()}`).join(' · ')} · {plan.unchanged} unchanged
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar py-2">
+          {groups.map(group => {
+            const paths = group.entries.map(e => e.path);
+            const allChecked = paths.every(p => selected.has(p));
+            return (
+              <div key={group.action} className="mb-2">
+                <label className="flex items-center space-x-2 px-6 py-2 text-[10px] font-bold text-zinc-500 uppercase tracking-widest cursor-pointer">
+                  <input type="checkbox" checked={allChecked} onChange={(e) => toggle(paths, e.target.checked)} className="accent-blue-500" />
+                  {group.icon}
+                  <span>{group.label} ({group.entries.length})</span>
+                </label>
+                {group.entries.map(entry => (
+                  <label key={entry.path} className="flex items-center space-x-3 px-6 pl-12 py-1 text-sm hover:bg-zinc-800/50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(entry.path)}
+                      onChange={(e) => toggle([entry.path], e.target.checked)}
+                      className="accent-blue-500 shrink-0"
+                    />
+                    <span className="flex-1 font-mono text-xs text-zinc-300 truncate" title={entry.path}>{entry.path}</span>
+                    {entry.localChanges && (
+                      <span className="text-[10px] text-amber-400 bg-amber-500/10 rounded px-1.5 py-0.5 shrink-0">{group.localLabel}</span>
+                    )}
+                    <span className="text-xs text-zinc-500 w-16 text-right shrink-0">{formatBytes(entry.bytes)}</span>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-zinc-800">
+          <span className="text-xs text-zinc-500">
+            {approved.length} of {plan.entries.length} selected · {formatBytes(approvedBytes)}
+          </span>
+          <div className="flex space-x-2">
+            <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-semibold text-zinc-400 hover:text-white hover:bg-zinc-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(approved)}
+              disabled={approved.length === 0}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-emerald-600 hover:bg-emerald-500 disabled:bg-zinc-800 disabled:text-zinc-600 text-white transition-all active:scale-95"
+            >
+              Apply {approved.length} change{approved.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, SlidersHorizontal, X } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { parseGlobList } from '../services/globMatch';
+import { LogEntry } from '../types';
+
+const textareaClass = 'w-full h-20 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-xs font-mono text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-zinc-600 resize-none';
+
+const GlobField: React.FC<{
+  label: string;
+  hint: string;
+  value: string;
+  placeholder: string;
+  onChange: (value: string) => void;
+}> = ({ label, hint, value, placeholder, onChange }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs font-semibold text-zinc-300">{label}</span>
+    <textarea value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={textareaClass} />
+    <span className="block text-[11px] text-zinc-500">{hint}</span>
+  </label>
+);
+
+/**
+ * Editor for the sync rules of the active repo and the mapped folder.
+ * Globs are entered one per line (or comma separated).
+ */
+export const SyncRulesDialog: React.FC<{
+  repoId: string;
+  folderName: string;
+  onClose: () => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}> = ({ repoId, folderName, onClose, onLog }) => {
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [protectedPaths, setProtectedPaths] = useState('');
+  const [useGitignore, setUseGitignore] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    gitService.getSyncRules(repoId).then(rules => {
+      setInclude(rules.include.join('\n'));
+      setExclude(rules.exclude.join('\n'));
+      setProtectedPaths(rules.protectedPaths.join('\n'));
+      setUseGitignore(rules.useGitignore);
+    }).catch(err => onLog(`Failed to load sync rules: ${err.message}`, 'error'))
+      .finally(() => setIsLoading(false));
+  }, [repoId, onLog]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await gitService.setSyncRules(repoId, {
+        include: parseGlobList(include),
+        exclude: parseGlobList(exclude),
+        protectedPaths: parseGlobList(protectedPaths),
+        useGitignore,
+      });
+      onLog(`Saved sync rules for ${folderName}`, 'success');
+      onClose();
+    } catch (err: any) {
+      onLog(`Failed to save sync rules: ${err.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-zinc-900 border border-zinc-800 w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <SlidersHorizontal className="w-5 h-5 text-emerald-500" />
+            <h2 className="text-lg font-bold">Sync rules for {folderName}</h2>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-10 flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-zinc-500" /></div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <GlobField
+              label="Include"
+              hint="Only matching paths are synced. Leave empty to sync everything."
+              value={include}
+              placeholder={'src/**\ndocs'}
+              onChange={setInclude}
+            />
+            <GlobField
+              label="Exclude"
+              hint="Matching paths are neither written, deleted nor imported."
+              value={exclude}
+              placeholder={'*.log\ndist'}
+              onChange={setExclude}
+            />
+            <GlobField
+              label="Protected paths"
+              hint="Local files here are never overwritten, deleted or imported."
+              value={protectedPaths}
+              placeholder={'.env*\nnode_modules'}
+              onChange={setProtectedPaths}
+            />
+            <label className="flex items-center space-x-2 text-sm text-zinc-400 cursor-pointer">
+              <input type="checkbox" checked={useGitignore} onChange={(e) => setUseGitignore(e.target.checked)} />
+              <span>Leave files matched by the repository's .gitignore alone</span>
+            </label>
+          </div>
+        )}
+
+        <div className="p-4 bg-zinc-950 border-t border-zinc-800 flex justify-end space-x-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 text-white px-6 py-2 rounded-lg text-sm font-bold transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+// Opened by background.js for a host that isn't approved yet; the answer goes to storage
+const params = new URLSearchParams(location.search);
+const host = params.get('host');
+
+document.getElementById('host').textContent = host;
+document.getElementById('host-again').textContent = host;
+document.getElementById('origin').textContent = params.get('origin');
+
+document.getElementById('allow').addEventListener('click', async () => {
+    const { approvedHosts = [] } = await chrome.storage.local.get('approvedHosts');
+    if (!approvedHosts.includes(host)) await chrome.storage.local.set({ approvedHosts: [...approvedHosts, host] });
+    window.close();
+});
+
+document.getElementById('deny').addEventListener('click', () => window.close());
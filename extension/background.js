@@ -1,48 +1,157 @@
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-    if (request.type === 'GIT_FETCH') {
-        const { url, method, headers, body } = request.payload;
-
-        // Robust body conversion
-        let fetchBody = undefined;
-        if (body) {
-            if (body instanceof Uint8Array) {
-                fetchBody = body;
-            } else if (Array.isArray(body)) {
-                fetchBody = new Uint8Array(body);
-            } else if (typeof body === 'object' && typeof body.length === 'number') {
-                fetchBody = new Uint8Array(body.length);
-                for (let i = 0; i < body.length; i++) fetchBody[i] = body[i];
-            } else {
-                fetchBody = new Uint8Array(Object.values(body));
-            }
+// Bumped whenever the messages between the page and the extension change; the app checks it on ping
+const BRIDGE_PROTOCOL = 2;
+
+// Unacknowledged response chunks allowed in flight before the download waits for the app
+const STREAM_WINDOW = 8;
+
+// Pages that may use the bridge: http and https on localhost and 127.0.0.1, any port. Keep this
+// the same list as the content_scripts matches in manifest.json, which decide where content.js runs.
+const ALLOWED_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/;
+
+// Git's smart-HTTP endpoints: ref discovery and the upload/receive pack services, nothing else
+const GIT_ENDPOINT = /\/(info\/refs\?service=git-(upload|receive)-pack|git-(upload|receive)-pack)$/;
+
+async function getApprovedHosts() {
+    const { approvedHosts = [] } = await chrome.storage.local.get('approvedHosts');
+    return approvedHosts;
+}
+
+// One approval window per host, however many requests are waiting for it
+const pendingApprovals = new Map();
+
+// Asks the user in an extension window, which the page can't script, whether the app may reach host
+function requestApproval(host, origin) {
+    if (!pendingApprovals.has(host)) {
+        const decision = new Promise((resolve) => {
+            const url = chrome.runtime.getURL(`approve.html?host=${encodeURIComponent(host)}&origin=${encodeURIComponent(origin)}`);
+            chrome.windows.create({ url, type: 'popup', width: 440, height: 260 }, (win) => {
+                // approve.html records the answer in storage and closes itself
+                const onRemoved = async (windowId) => {
+                    if (windowId !== win.id) return;
+                    chrome.windows.onRemoved.removeListener(onRemoved);
+                    resolve((await getApprovedHosts()).includes(host));
+                };
+                chrome.windows.onRemoved.addListener(onRemoved);
+            });
+        });
+        pendingApprovals.set(host, decision.finally(() => pendingApprovals.delete(host)));
+    }
+    return pendingApprovals.get(host);
+}
+
+// Returns why the request is refused, or null when it may go ahead
+async function checkRequest(sender, { url, method }) {
+    if (sender.id !== chrome.runtime.id || !ALLOWED_ORIGIN.test(sender.origin || '')) {
+        return 'Requests are only accepted from the Git browser AI page';
+    }
+    let target;
+    try { target = new URL(url); } catch (e) { return `Not a valid URL: ${url}`; }
+    if (target.protocol !== 'https:') return 'Only https git servers can be reached';
+    if (method !== 'GET' && method !== 'POST') return `Method ${method} is not used by git`;
+    if (!GIT_ENDPOINT.test(target.pathname + target.search)) return 'Only git smart-HTTP requests are forwarded';
+    if (!(await getApprovedHosts()).includes(target.host) && !(await requestApproval(target.host, sender.origin))) {
+        return `Access to ${target.host} was not approved`;
+    }
+    return null;
+}
+
+// Runtime messages are JSON, so binary data crosses them as base64
+function toBase64(bytes) {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(text) {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// One request per 'git-fetch' port: a 'request' message in, then 'head', numbered 'chunk's
+// and 'end' (or 'error') out. Each 'ack' from the app lets one more chunk go.
+function serveGitFetch(port) {
+    const controller = new AbortController();
+    let credits = STREAM_WINDOW;
+    let wake = null;
+    const release = () => {
+        const w = wake;
+        wake = null;
+        w?.();
+    };
+
+    // The tab closed, the app cancelled or the content script went away
+    port.onDisconnect.addListener(() => {
+        controller.abort();
+        release();
+    });
+
+    async function stream({ url, method, headers, body }) {
+        const refused = await checkRequest(port.sender, { url, method });
+        if (refused) {
+            console.warn(`[Extension] Refused ${method} ${url}: ${refused}`);
+            port.postMessage({ type: 'error', message: refused, refused: true });
+            return;
         }
 
+        const fetchBody = body ? fromBase64(body) : undefined;
         console.log(`[Extension] Fetching ${method} ${url} (${fetchBody?.length || 0} bytes body)`);
+        const res = await fetch(url, { method, headers, body: fetchBody, signal: controller.signal });
+        port.postMessage({
+            type: 'head',
+            url: res.url,
+            status: res.status,
+            statusText: res.statusText,
+            headers: Object.fromEntries(res.headers.entries())
+        });
 
-        fetch(url, {
-            method,
-            headers,
-            body: fetchBody
-        })
-            .then(async (res) => {
-                const buffer = await res.arrayBuffer();
-                const data = new Uint8Array(buffer);
-                console.log(`[Extension] Response ${res.status} from ${url} (${data.length} bytes)`);
-
-                sendResponse({
-                    ok: res.ok,
-                    url: res.url,
-                    status: res.status,
-                    statusText: res.statusText,
-                    headers: Object.fromEntries(res.headers.entries()),
-                    data: data // Send TypedArray directly
-                });
-            })
-            .catch(err => {
-                console.error(`[Extension] Error fetching ${url}:`, err);
-                sendResponse({ error: err.message });
+        let seq = 0;
+        let total = 0;
+        if (res.body) {
+            const reader = res.body.getReader();
+            for (let read = await reader.read(); !read.done; read = await reader.read()) {
+                while (credits === 0 && !controller.signal.aborted) {
+                    await new Promise((resolve) => { wake = resolve; });
+                }
+                controller.signal.throwIfAborted();
+                credits--;
+                total += read.value.length;
+                port.postMessage({ type: 'chunk', seq: seq++, data: toBase64(read.value) });
+            }
+        }
+        port.postMessage({ type: 'end' });
+        console.log(`[Extension] Response ${res.status} from ${url} (${total} bytes in ${seq} chunks)`);
+    }
+
+    port.onMessage.addListener((message) => {
+        if (message.type === 'ack') {
+            credits++;
+            release();
+        } else if (message.type === 'cancel') {
+            controller.abort();
+            release();
+        } else if (message.type === 'request') {
+            stream(message).catch((err) => {
+                // Nobody is listening after a cancel, and posting to a closed port throws
+                if (controller.signal.aborted) return;
+                console.error(`[Extension] Error fetching ${message.url}:`, err);
+                port.postMessage({ type: 'error', message: err.message });
             });
+        }
+    });
+}
+
+chrome.runtime.onConnect.addListener((port) => {
+    if (port.name === 'git-fetch') serveGitFetch(port);
+});
 
-        return true;
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+    if (request.type === 'PING') {
+        if (!ALLOWED_ORIGIN.test(sender.origin || '')) return false;
+        sendResponse({ version: chrome.runtime.getManifest().version, protocol: BRIDGE_PROTOCOL });
+        return false;
     }
-});
\ No newline at end of file
+});
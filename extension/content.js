@@ -1,17 +1,83 @@
+// Runtime messages are JSON, so binary data crosses them as base64
+function toBase64(bytes) {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(text) {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// Joins the app's MessagePort to a 'git-fetch' port on the background script. Chunks are
+// decoded here and transferred to the app, so they are never copied on the page's side.
+function relayGitFetch(pagePort) {
+    const background = chrome.runtime.connect({ name: 'git-fetch' });
+    let done = false;
+    const finish = () => {
+        done = true;
+        background.disconnect();
+        pagePort.close();
+    };
+
+    pagePort.onmessage = ({ data }) => {
+        if (done) return;
+        if (data.type === 'request') {
+            background.postMessage({ ...data, body: data.body ? toBase64(data.body) : null });
+        } else if (data.type === 'cancel') {
+            finish();
+        } else {
+            background.postMessage(data);
+        }
+    };
+
+    background.onMessage.addListener((message) => {
+        if (message.type === 'chunk') {
+            const bytes = fromBase64(message.data);
+            pagePort.postMessage({ ...message, data: bytes }, [bytes.buffer]);
+        } else {
+            pagePort.postMessage(message);
+        }
+        if (message.type === 'end' || message.type === 'error') finish();
+    });
+
+    // The background service worker was stopped or the extension reloaded mid-request
+    background.onDisconnect.addListener(() => {
+        if (done) return;
+        pagePort.postMessage({ type: 'error', message: 'The extension bridge disconnected' });
+        done = true;
+        pagePort.close();
+    });
+}
 
 // Bridge between page and background
 window.addEventListener('message', (event) => {
-    if (event.data?.source === 'cors-unblock-inject') {
-        const { id, type, data } = event.data;
-
-        // Pass to background script
-        chrome.runtime.sendMessage({ type, payload: data }, (response) => {
-            // Pass back to page
-            window.postMessage({
-                source: 'cors-unblock-content',
-                id,
-                result: response
-            }, '*');
-        });
+    // Only the page's own scripts may use the bridge, not other windows or frames posting to it
+    if (event.source !== window || event.origin !== window.location.origin) return;
+    if (event.data?.source !== 'cors-unblock-inject') return;
+
+    const { id, type, data } = event.data;
+
+    // Streamed fetches bring their own port and don't answer on window messages
+    if (type === 'GIT_FETCH_STREAM') {
+        if (event.ports[0]) relayGitFetch(event.ports[0]);
+        return;
     }
+
+    // Pass to background script
+    chrome.runtime.sendMessage({ type, payload: data }, (response) => {
+        const error = chrome.runtime.lastError?.message;
+        // Pass back to page, and to nobody else
+        window.postMessage({
+            source: 'cors-unblock-content',
+            id,
+            type,
+            result: error ? { error } : response
+        }, window.location.origin);
+    });
 });
@@ -0,0 +1,27 @@
+const list = document.getElementById('hosts');
+
+async function render() {
+    const { approvedHosts = [] } = await chrome.storage.local.get('approvedHosts');
+    list.replaceChildren();
+    if (approvedHosts.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'empty';
+        empty.textContent = 'No hosts approved yet';
+        list.append(empty);
+    }
+    for (const host of approvedHosts) {
+        const item = document.createElement('li');
+        const name = document.createElement('span');
+        name.textContent = host;
+        const remove = document.createElement('button');
+        remove.textContent = 'Remove';
+        remove.addEventListener('click', async () => {
+            await chrome.storage.local.set({ approvedHosts: approvedHosts.filter(h => h !== host) });
+            render();
+        });
+        item.append(name, remove);
+        list.append(item);
+    }
+}
+
+render();
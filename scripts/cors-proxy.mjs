@@ -0,0 +1,116 @@
+/**
+ * A small CORS proxy for git's smart-HTTP protocol, so repository traffic can go through
+ * a server you run instead of a public one. It uses the URL scheme isomorphic-git expects:
+ *
+ *   http://localhost:9999/github.com/user/repo.git/info/refs?service=git-upload-pack
+ *
+ * Run it with `npm run proxy` (PORT and ALLOW_ORIGIN override the defaults) and add
+ * http://localhost:9999 in the app's CORS proxy settings. The dev server mounts the same
+ * handler at /cors-proxy, see vite.config.ts.
+ *
+ * Requests are only accepted from the app's origin: the proxy forwards credentials and can
+ * reach any https host the machine running it can, intranet ones included, so other pages
+ * the user visits must not be able to use it.
+ */
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { pathToFileURL } from 'node:url';
+
+// Only git's own endpoints are forwarded, so the proxy can't be used to fetch arbitrary pages.
+// The host is not restricted: whoever may use the proxy can reach any https git server from here.
+const GIT_ENDPOINT = /^\/[^/]+\/.+(\/info\/refs\?service=git-(upload|receive)-pack|\/git-(upload|receive)-pack)$/;
+
+const FORWARDED_HEADERS = ['accept', 'authorization', 'content-type', 'git-protocol'];
+const EXPOSED_HEADERS = ['content-type', 'cache-control', 'etag', 'www-authenticate', 'x-github-request-id'];
+
+// Port of `npm run dev`, whose origin the standalone proxy serves unless ALLOW_ORIGIN says otherwise
+const DEV_SERVER_ORIGIN = 'https://localhost:5173';
+
+// The origin the request was sent to, which is the app's when the proxy is mounted in its server
+function ownOrigin(req) {
+  const host = req.headers.host ?? req.headers[':authority'];
+  return `${req.socket.encrypted ? 'https' : 'http'}://${host}`;
+}
+
+/**
+ * Connect-style middleware, usable on its own with http.createServer.
+ * Without allowOrigin only pages served from the proxy's own origin may use it.
+ * @param {{ allowOrigin?: string }} [options]
+ */
+export function createCorsProxy({ allowOrigin } = {}) {
+  return async (req, res, next) => {
+    const allowed = allowOrigin ?? ownOrigin(req);
+    // Browsers send Origin with every cross-origin request; requests without one aren't from another page
+    if (req.headers.origin && req.headers.origin !== allowed) {
+      res.statusCode = 403;
+      return res.end('Origin not allowed\n');
+    }
+    res.setHeader('Access-Control-Allow-Origin', allowed);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', FORWARDED_HEADERS.join(', '));
+    res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '));
+
+    const path = req.url || '/';
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      return res.end();
+    }
+    // Answers the app's health check
+    if (path === '/' && req.method === 'GET') {
+      res.setHeader('Content-Type', 'text/plain');
+      return res.end('git cors proxy\n');
+    }
+    if (!GIT_ENDPOINT.test(path) || (req.method !== 'GET' && req.method !== 'POST')) {
+      if (next) return next();
+      res.statusCode = 403;
+      return res.end('Only git smart-HTTP requests are proxied\n');
+    }
+
+    const headers = { 'user-agent': 'git/cors-proxy' };
+    for (const name of FORWARDED_HEADERS) {
+      if (req.headers[name]) headers[name] = req.headers[name];
+    }
+
+    // Stop downloading once the client has gone. The response, not the request, tells:
+    // the request closes as soon as its body has been read.
+    const upstreamRequest = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) upstreamRequest.abort();
+    });
+
+    try {
+      const upstream = await fetch(`https://${path.slice(1)}`, {
+        method: req.method,
+        headers,
+        body: req.method === 'POST' ? req : undefined,
+        duplex: 'half',
+        signal: upstreamRequest.signal,
+      });
+      res.statusCode = upstream.status;
+      for (const name of EXPOSED_HEADERS) {
+        const value = upstream.headers.get(name);
+        if (value) res.setHeader(name, value);
+      }
+      // pipeline, unlike pipe, passes on an upstream reset instead of throwing it unhandled
+      if (upstream.body) await pipeline(Readable.fromWeb(upstream.body), res);
+      else res.end();
+    } catch (err) {
+      if (upstreamRequest.signal.aborted) return;
+      console.error(`[cors-proxy] ${req.method} ${path}: ${err.message}`);
+      // Halfway through a body the status is gone; cutting the connection tells the client
+      if (res.headersSent) return res.destroy();
+      res.statusCode = 502;
+      res.end(`Could not reach ${path.split('/')[1]}\n`);
+    }
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 9999;
+  const proxy = createCorsProxy({ allowOrigin: process.env.ALLOW_ORIGIN || DEV_SERVER_ORIGIN });
+  http.createServer((req, res) => proxy(req, res)).listen(port, () => {
+    console.log(`git cors proxy listening on http://localhost:${port}, for ${process.env.ALLOW_ORIGIN || DEV_SERVER_ORIGIN}`);
+  });
+}
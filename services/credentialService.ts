@@ -0,0 +1,119 @@
+import { IdbStore } from './idbStore';
+import { GitCredential } from '../types';
+
+/**
+ * CredentialService.ts
+ * Per-host git credentials, encrypted at rest with a key derived from a user passphrase.
+ * Host names are stored in clear text so the UI can tell which hosts have saved credentials
+ * while the vault is still locked.
+ */
+
+interface EncryptedRecord {
+    iv: Uint8Array;
+    data: ArrayBuffer;
+}
+
+interface VaultRecord {
+    salt: Uint8Array;
+    // Encryption of VAULT_CHECK, used to verify the passphrase on unlock
+    check: EncryptedRecord;
+}
+
+const VAULT_KEY = '#vault';
+const VAULT_CHECK = 'git-browser-vault';
+const PBKDF2_ITERATIONS = 250000;
+
+export class CredentialService {
+    private store = new IdbStore<VaultRecord | EncryptedRecord>('credentials');
+    private key: CryptoKey | null = null;
+
+    get isUnlocked() {
+        return this.key !== null;
+    }
+
+    async hasVault(): Promise<boolean> {
+        return (await this.store.get(VAULT_KEY)) !== undefined;
+    }
+
+    async listHosts(): Promise<string[]> {
+        return (await this.store.keys()).filter(key => key !== VAULT_KEY);
+    }
+
+    /**
+     * Unlocks the vault, creating it with this passphrase the first time.
+     * Throws if the passphrase does not match the existing vault.
+     */
+    async unlock(passphrase: string): Promise<void> {
+        const vault = await this.store.get(VAULT_KEY) as VaultRecord | undefined;
+        if (!vault) {
+            const salt = crypto.getRandomValues(new Uint8Array(16));
+            const key = await this.deriveKey(passphrase, salt);
+            await this.store.put(VAULT_KEY, { salt, check: await this.encrypt(key, VAULT_CHECK) });
+            this.key = key;
+            return;
+        }
+
+        const key = await this.deriveKey(passphrase, vault.salt);
+        try {
+            if (await this.decrypt(key, vault.check) !== VAULT_CHECK) throw new Error();
+        } catch (e) {
+            throw new Error('Incorrect passphrase');
+        }
+        this.key = key;
+    }
+
+    lock() {
+        this.key = null;
+    }
+
+    async get(host: string): Promise<GitCredential | null> {
+        const record = await this.store.get(host) as EncryptedRecord | undefined;
+        if (!record) return null;
+        return JSON.parse(await this.decrypt(this.requireKey(), record));
+    }
+
+    async save(host: string, credential: GitCredential): Promise<void> {
+        await this.store.put(host, await this.encrypt(this.requireKey(), JSON.stringify(credential)));
+    }
+
+    async remove(host: string): Promise<void> {
+        await this.store.delete(host);
+    }
+
+    /**
+     * Deletes every saved credential along with the vault, e.g. after a forgotten passphrase.
+     */
+    async reset(): Promise<void> {
+        await this.store.clear();
+        this.key = null;
+    }
+
+    private requireKey(): CryptoKey {
+        if (!this.key) throw new Error('Credential vault is locked');
+        return this.key;
+    }
+
+    private async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+        const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+        return crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+            material,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        );
+    }
+
+    private async encrypt(key: CryptoKey, text: string): Promise<EncryptedRecord> {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+        return { iv, data };
+    }
+
+    private async decrypt(key: CryptoKey, record: EncryptedRecord): Promise<string> {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv as BufferSource }, key, record.data);
+        return new TextDecoder().decode(plain);
+    }
+}
+
+export const credentialService = new CredentialService();
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { detectEncoding, detectMime, formatBytes, inspectFile, MAX_TEXT_BYTES } from './fileContent';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+// 这是一个中文文件，包含一些常见的汉字。 in GBK
+const GBK = Uint8Array.from([213, 226, 202, 199, 210, 187, 184, 246, 214, 208, 206, 196, 206, 196, 188, 254, 163, 172, 176, 252, 186, 172, 210, 187, 208, 169, 179, 163, 188, 251, 181, 196, 186, 186, 215, 214, 161, 163]);
+// これは日本語のファイルです。 in Shift-JIS
+const SHIFT_JIS = Uint8Array.from([130, 177, 130, 234, 130, 205, 147, 250, 150, 123, 140, 234, 130, 204, 131, 116, 131, 64, 131, 67, 131, 139, 130, 197, 130, 183, 129, 66]);
+// café déjà vu in windows-1252
+const LATIN = Uint8Array.from([99, 97, 102, 233, 32, 100, 233, 106, 224, 32, 118, 117]);
+
+describe('detectEncoding', () => {
+    it('reads UTF-8, plain ASCII included', () => {
+        expect(detectEncoding(utf8('hello'))).toBe('utf-8');
+        expect(detectEncoding(utf8('naïve — 漢字'))).toBe('utf-8');
+        expect(detectEncoding(new Uint8Array())).toBe('utf-8');
+    });
+
+    it('follows a byte order mark', () => {
+        expect(detectEncoding(Uint8Array.from([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+        expect(detectEncoding(Uint8Array.from([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+        expect(detectEncoding(Uint8Array.from([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+    });
+
+    it('takes data with NUL bytes for binary', () => {
+        expect(detectEncoding(Uint8Array.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0x01]))).toBeNull();
+    });
+
+    it('tells GBK from Shift-JIS', () => {
+        expect(detectEncoding(GBK)).toBe('gbk');
+        expect(detectEncoding(SHIFT_JIS)).toBe('shift_jis');
+    });
+
+    it('falls back to windows-1252 for Latin text', () => {
+        expect(detectEncoding(LATIN)).toBe('windows-1252');
+    });
+
+    it('still reads UTF-8 that the text limit cuts in the middle of a character', () => {
+        const text = utf8('a'.repeat(MAX_TEXT_BYTES - 1) + 'é');
+        expect(detectEncoding(text)).toBe('utf-8');
+    });
+});
+
+describe('detectMime', () => {
+    it('trusts magic numbers over the extension', () => {
+        expect(detectMime('logo.jpg', Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d]))).toBe('image/png');
+        expect(detectMime('x.bin', utf8('RIFF\0\0\0\0WEBP'))).toBe('image/webp');
+    });
+
+    it('falls back to the extension, then to octet-stream', () => {
+        expect(detectMime('src/App.TSX', utf8('import'))).toBe('text/typescript');
+        expect(detectMime('Makefile', utf8('all:'))).toBe('application/octet-stream');
+    });
+});
+
+describe('inspectFile', () => {
+    it('decodes text in the detected encoding', () => {
+        expect(inspectFile('notes.txt', GBK.length, GBK)).toMatchObject({ kind: 'text', encoding: 'gbk', text: '这是一个中文文件，包含一些常见的汉字。' });
+    });
+
+    it('decodes with the encoding picked by hand', () => {
+        expect(inspectFile('notes.txt', LATIN.length, LATIN, 'windows-1252').text).toBe('café déjà vu');
+    });
+
+    it('shows images as images, except SVG which is text too', () => {
+        const png = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        expect(inspectFile('a.png', png.length, png)).toMatchObject({ kind: 'image', text: null });
+        expect(inspectFile('a.svg', 6, utf8('<svg/>'))).toMatchObject({ kind: 'image', mime: 'image/svg+xml', text: '<svg/>' });
+    });
+
+    it('cuts long text off at the limit', () => {
+        const data = utf8('x'.repeat(MAX_TEXT_BYTES + 10));
+        const content = inspectFile('big.txt', data.length, data);
+        expect(content.truncated).toBe(true);
+        expect(content.text).toHaveLength(MAX_TEXT_BYTES);
+    });
+
+    it('marks files that were too large to read', () => {
+        expect(inspectFile('huge.bin', 1e9, null)).toMatchObject({ tooLarge: true, kind: 'binary', bytes: null });
+    });
+});
+
+describe('formatBytes', () => {
+    it('picks a unit', () => {
+        expect(formatBytes(512)).toBe('512 B');
+        expect(formatBytes(1536)).toBe('1.5 KB');
+        expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+    });
+});
@@ -0,0 +1,153 @@
+import type { FileContent } from '../types';
+
+// Files above this are not loaded at all
+export const MAX_READ_BYTES = 20 * 1024 * 1024;
+// Text beyond this is cut off so the code pane stays responsive
+export const MAX_TEXT_BYTES = 2 * 1024 * 1024;
+
+// Encodings the viewer offers when detection guesses wrong
+export const TEXT_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'gbk', 'shift_jis', 'euc-kr', 'big5', 'windows-1252'];
+
+// Legacy encodings guessed when a file is not valid UTF-8. Others (EUC-KR, Big5) decode
+// GBK bytes into plausible-looking text too often to guess safely, so they're manual only
+const LEGACY_ENCODINGS = ['gbk', 'shift_jis'];
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    bmp: 'image/bmp',
+    ico: 'image/x-icon',
+    svg: 'image/svg+xml',
+    pdf: 'application/pdf',
+    zip: 'application/zip',
+    gz: 'application/gzip',
+    wasm: 'application/wasm',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    mp3: 'audio/mpeg',
+    mp4: 'video/mp4',
+    json: 'application/json',
+    js: 'text/javascript',
+    mjs: 'text/javascript',
+    ts: 'text/typescript',
+    tsx: 'text/typescript',
+    css: 'text/css',
+    html: 'text/html',
+    htm: 'text/html',
+    md: 'text/markdown',
+    xml: 'application/xml',
+};
+
+// Magic numbers win over the extension, so a mislabelled file still renders correctly
+const SIGNATURES: { mime: string; bytes: number[]; offset?: number }[] = [
+    { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+    { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { mime: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+    { mime: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+    { mime: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { mime: 'application/gzip', bytes: [0x1f, 0x8b] },
+    { mime: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+];
+
+export function detectMime(path: string, head: Uint8Array): string {
+    const signature = SIGNATURES.find(({ bytes, offset = 0 }) => bytes.every((b, i) => head[offset + i] === b));
+    if (signature) return signature.mime;
+    const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+    return MIME_BY_EXTENSION[ext] || 'application/octet-stream';
+}
+
+function detectBom(data: Uint8Array): string | null {
+    if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return 'utf-8';
+    if (data[0] === 0xff && data[1] === 0xfe) return 'utf-16le';
+    if (data[0] === 0xfe && data[1] === 0xff) return 'utf-16be';
+    return null;
+}
+
+// partial allows data to end in the middle of a multi-byte sequence
+function tryDecode(data: Uint8Array, encoding: string, partial = false): string | null {
+    try {
+        return new TextDecoder(encoding, { fatal: true }).decode(data, { stream: partial });
+    } catch (e) {
+        // Invalid for this encoding, or the encoding isn't supported by the browser
+        return null;
+    }
+}
+
+// Rough plausibility score: text decoded with the wrong legacy codec tends to produce
+// half-width katakana, private-use and rare symbol characters. Kana only appear in real
+// Japanese, so they outweigh the ideographs Shift-JIS bytes also decode to under GBK.
+function scoreDecoding(text: string): number {
+    let score = 0;
+    for (const ch of text) {
+        const code = ch.codePointAt(0)!;
+        if (code >= 0x3040 && code <= 0x30ff) score += 3;
+        else if (code < 0x80 || (code >= 0x4e00 && code <= 0x9fff) || (code >= 0x3000 && code <= 0x303f) || (code >= 0xff01 && code <= 0xff5e)) score++;
+        else score -= 2;
+    }
+    return score;
+}
+
+/**
+ * Picks a text encoding for data, or null when it looks binary.
+ * Checks for a BOM, then strict UTF-8, then GBK and Shift-JIS.
+ */
+export function detectEncoding(data: Uint8Array): string | null {
+    const bom = detectBom(data);
+    if (bom) return bom;
+    const sample = data.subarray(0, 8000);
+    if (sample.includes(0)) return null;
+    const truncated = data.length > MAX_TEXT_BYTES;
+    if (tryDecode(truncated ? data.subarray(0, MAX_TEXT_BYTES) : data, 'utf-8', truncated) !== null) return 'utf-8';
+
+    let best: { encoding: string; score: number } | null = null;
+    for (const encoding of LEGACY_ENCODINGS) {
+        const text = tryDecode(sample, encoding, sample.length < data.length);
+        if (text === null) continue;
+        const score = scoreDecoding(text);
+        if (!best || score > best.score) best = { encoding, score };
+    }
+    // Latin-1 style files decode under windows-1252 no matter what
+    return best && best.score > 0 ? best.encoding : 'windows-1252';
+}
+
+/**
+ * Classifies raw file bytes for display: MIME type, text encoding and decoded text.
+ * Pass encoding to override detection (e.g. when the user picks one by hand).
+ */
+export function inspectFile(path: string, size: number, data: Uint8Array | null, encoding?: string): FileContent {
+    if (!data) {
+        return { path, size, mime: detectMime(path, new Uint8Array()), kind: 'binary', encoding: null, bytes: null, text: null, truncated: false, tooLarge: true };
+    }
+    const mime = detectMime(path, data.subarray(0, 16));
+    const isImage = mime.startsWith('image/');
+    // SVG is both an image and editable text
+    const textEncoding = encoding || (isImage && mime !== 'image/svg+xml' ? null : detectEncoding(data));
+
+    let text: string | null = null;
+    let truncated = false;
+    if (textEncoding) {
+        truncated = data.length > MAX_TEXT_BYTES;
+        text = new TextDecoder(textEncoding).decode(truncated ? data.subarray(0, MAX_TEXT_BYTES) : data);
+    }
+    return {
+        path, size, mime,
+        kind: isImage ? 'image' : text !== null ? 'text' : 'binary',
+        encoding: textEncoding,
+        bytes: data,
+        text,
+        truncated,
+        tooLarge: false,
+    };
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,52 @@
+/**
+ * Fuzzy path matching for the quick-open finder.
+ * Query characters must appear in order; matches that are consecutive, start a
+ * path segment or word, or fall inside the file name score higher.
+ */
+
+import type { FuzzyMatch } from '../types';
+
+const SEPARATORS = '/\\_-. ';
+
+function matchFrom(query: string, target: string, lowerTarget: string, start: number): { score: number; positions: number[] } | null {
+    const positions: number[] = [];
+    let score = 0;
+    let ti = start;
+    for (let qi = 0; qi < query.length; qi++) {
+        const ch = query[qi];
+        const found = lowerTarget.indexOf(ch, ti);
+        if (found === -1) return null;
+        const prev = target[found - 1];
+        if (positions.length && positions[positions.length - 1] === found - 1) score += 6;
+        if (found === start || SEPARATORS.includes(prev)) score += 8;
+        else if (target[found] !== lowerTarget[found] && prev === prev?.toLowerCase()) score += 5; // camelCase boundary
+        score += 1;
+        positions.push(found);
+        ti = found + 1;
+    }
+    return { score, positions };
+}
+
+export function fuzzyMatch(query: string, path: string): FuzzyMatch | null {
+    const q = query.toLowerCase().replace(/\s+/g, '');
+    if (!q) return { path, score: 0, positions: [] };
+    const lower = path.toLowerCase();
+    const nameStart = path.lastIndexOf('/') + 1;
+
+    // Prefer matching entirely within the file name, then fall back to the whole path
+    const inName = matchFrom(q, path, lower, nameStart);
+    const result = inName ? { ...inName, score: inName.score + 20 } : matchFrom(q, path, lower, 0);
+    if (!result) return null;
+    // Shorter paths win ties
+    return { path, score: result.score - path.length * 0.05, positions: result.positions };
+}
+
+export function fuzzyFilter(query: string, paths: string[], limit: number): FuzzyMatch[] {
+    const results: FuzzyMatch[] = [];
+    for (const path of paths) {
+        const match = fuzzyMatch(query, path);
+        if (match) results.push(match);
+    }
+    results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+    return results.slice(0, limit);
+}
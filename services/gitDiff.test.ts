@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { buildHunks, diffLines } from './gitDiff';
+import type { DiffLine } from '../types';
+
+// The two sides a line diff describes: everything but additions is the old file, everything but deletions the new one
+function sides(lines: DiffLine[]) {
+    return {
+        old: lines.filter(l => l.type !== 'add').map(l => l.text),
+        new: lines.filter(l => l.type !== 'del').map(l => l.text),
+    };
+}
+
+function lcsLength(a: string[], b: string[]): number {
+    const row = new Array(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = 0;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+// Small alphabet, so random files share plenty of lines
+function randomLines(random: () => number, maxLength: number): string[] {
+    return Array.from({ length: Math.floor(random() * maxLength) }, () => 'abcd'[Math.floor(random() * 4)]);
+}
+
+function seeded(seed: number) {
+    return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+}
+
+describe('diffLines', () => {
+    it('marks identical files as all context', () => {
+        expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual([
+            { type: 'context', text: 'a', oldNo: 1, newNo: 1 },
+            { type: 'context', text: 'b', oldNo: 2, newNo: 2 },
+        ]);
+    });
+
+    it('diffs against an empty file', () => {
+        expect(diffLines([], ['a', 'b']).map(l => l.type)).toEqual(['add', 'add']);
+        expect(diffLines(['a', 'b'], []).map(l => l.type)).toEqual(['del', 'del']);
+        expect(diffLines([], [])).toEqual([]);
+    });
+
+    it('keeps the common prefix and suffix as context around a change', () => {
+        expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+            { type: 'context', text: 'a', oldNo: 1, newNo: 1 },
+            { type: 'del', text: 'b', oldNo: 2 },
+            { type: 'add', text: 'x', newNo: 2 },
+            { type: 'context', text: 'c', oldNo: 3, newNo: 3 },
+        ]);
+    });
+
+    it('numbers lines after an insertion on both sides', () => {
+        const lines = diffLines(['a', 'b'], ['a', 'new', 'b']);
+        expect(lines[1]).toEqual({ type: 'add', text: 'new', newNo: 2 });
+        expect(lines[2]).toEqual({ type: 'context', text: 'b', oldNo: 2, newNo: 3 });
+    });
+
+    it('reproduces both files with a minimal number of changes', () => {
+        const random = seeded(42);
+        for (let run = 0; run < 500; run++) {
+            const a = randomLines(random, 30);
+            const b = randomLines(random, 30);
+            const lines = diffLines(a, b);
+            expect(sides(lines)).toEqual({ old: a, new: b });
+            // A shortest edit script keeps a longest common subsequence as context
+            expect(lines.filter(l => l.type === 'context').length).toBe(lcsLength(a, b));
+            // Line numbers count up through each side without gaps
+            expect(lines.filter(l => l.type !== 'add').map(l => l.oldNo)).toEqual(a.map((_, i) => i + 1));
+            expect(lines.filter(l => l.type !== 'del').map(l => l.newNo)).toEqual(b.map((_, i) => i + 1));
+        }
+    });
+
+    it('replaces the whole middle once the edit distance is too large to search', () => {
+        const a = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+        const b = Array.from({ length: 3000 }, (_, i) => `new ${i}`);
+        const lines = diffLines(['same', ...a], ['same', ...b]);
+        expect(sides(lines)).toEqual({ old: ['same', ...a], new: ['same', ...b] });
+        expect(lines.slice(1, 3001).every(l => l.type === 'del')).toBe(true);
+    });
+});
+
+describe('buildHunks', () => {
+    it('has no hunks for identical files', () => {
+        expect(buildHunks(['a', 'b'], ['a', 'b'])).toEqual([]);
+    });
+
+    it('surrounds a change with three lines of context', () => {
+        const a = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+        const b = a.map(l => (l === '5' ? 'five' : l));
+        const [hunk, ...rest] = buildHunks(a, b);
+        expect(rest).toEqual([]);
+        expect(hunk).toMatchObject({ oldStart: 2, oldLines: 7, newStart: 2, newLines: 7 });
+        expect(hunk.lines.map(l => l.text)).toEqual(['2', '3', '4', '5', 'five', '6', '7', '8']);
+    });
+
+    it('splits changes more than six lines apart into separate hunks', () => {
+        const a = Array.from({ length: 20 }, (_, i) => String(i + 1));
+        const b = a.map(l => (l === '2' || l === '18' ? `${l}!` : l));
+        expect(buildHunks(a, b).map(h => [h.oldStart, h.oldLines])).toEqual([[1, 5], [15, 6]]);
+    });
+
+    it('merges changes close enough to share their context', () => {
+        const a = Array.from({ length: 20 }, (_, i) => String(i + 1));
+        const b = a.map(l => (l === '5' || l === '10' ? `${l}!` : l));
+        expect(buildHunks(a, b)).toHaveLength(1);
+    });
+
+    it('starts additions to an empty file at line zero of the old side, like git', () => {
+        expect(buildHunks([], ['a', 'b'])).toEqual([{
+            oldStart: 0, oldLines: 0, newStart: 1, newLines: 2,
+            lines: [{ type: 'add', text: 'a', newNo: 1 }, { type: 'add', text: 'b', newNo: 2 }],
+        }]);
+        expect(buildHunks(['a'], [])[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 0, newLines: 0 });
+    });
+});
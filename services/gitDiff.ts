@@ -0,0 +1,228 @@
+import git from 'isomorphic-git';
+import type { DiffHunk, DiffLine, FileChange, FileDiff } from '../types';
+
+// Well-known id of the empty tree, used as the "before" side of a root commit
+export const EMPTY_TREE_OID = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Pseudo-ref that stands for the checked-out files instead of a commit
+export const WORKDIR_REF = 'WORKDIR';
+
+const CONTEXT_LINES = 3;
+const MAX_DIFF_BYTES = 1024 * 1024;
+// Upper bound on the edit distance explored by the Myers search before giving up
+const MAX_EDIT_DISTANCE = 4000;
+
+function walkerFor(ref: string | null) {
+    return ref === WORKDIR_REF ? git.WORKDIR() : git.TREE({ ref: ref || EMPTY_TREE_OID });
+}
+
+/**
+ * Resolves a branch, tag, full or abbreviated oid to a full oid.
+ * WORKDIR and null (empty tree) are passed through unchanged.
+ */
+export async function resolveCommitish(fs: any, dir: string, ref: string | null): Promise<string | null> {
+    if (ref === null || ref === WORKDIR_REF) return ref;
+    try {
+        return await git.resolveRef({ fs, dir, ref });
+    } catch (e) {
+        if (/^[0-9a-f]{4,39}$/i.test(ref)) return git.expandOid({ fs, dir, oid: ref });
+        throw e;
+    }
+}
+
+type ChangeWithContent = FileChange & { before?: Uint8Array; after?: Uint8Array };
+
+async function walkChanges(fs: any, dir: string, fromRef: string | null, toRef: string, withContent: boolean): Promise<ChangeWithContent[]> {
+    const changes = await git.walk({
+        fs,
+        dir,
+        trees: [walkerFor(fromRef), walkerFor(toRef)],
+        map: async (filepath, [a, b]) => {
+            if (filepath === '.') return;
+            const [aType, bType] = await Promise.all([a?.type(), b?.type()]);
+            // Untracked-but-ignored working tree entries are not changes
+            if (!a && toRef === WORKDIR_REF && await git.isIgnored({ fs, dir, filepath })) return null;
+            const [aOid, bOid] = await Promise.all([
+                aType === 'blob' || aType === 'tree' ? a?.oid() : undefined,
+                bType === 'blob' || bType === 'tree' ? b?.oid() : undefined,
+            ]);
+
+            if (aOid === bOid && aType === bType) return null;
+
+            let type: FileChange['type'];
+            if (aType === 'blob' && bType === 'blob') type = 'modified';
+            else if (bType === 'blob') type = 'added';
+            else if (aType === 'blob') type = 'deleted';
+            // Directories only matter for recursion; files inside them are reported individually
+            else return;
+
+            const change: ChangeWithContent = { path: filepath, type };
+            if (withContent) {
+                if (type !== 'added') change.before = await a!.content() || undefined;
+                if (type !== 'deleted') change.after = await b!.content() || undefined;
+            }
+            return change;
+        },
+    });
+    return (changes || []) as ChangeWithContent[];
+}
+
+/**
+ * Lists the files that differ between two commits (or a commit and the working tree).
+ * Subtrees with identical oids are skipped, so only changed directories are read.
+ */
+export async function diffTrees(fs: any, dir: string, fromRef: string | null, toRef: string): Promise<FileChange[]> {
+    return walkChanges(fs, dir, fromRef, toRef, false);
+}
+
+/**
+ * Computes per-file hunks between two commits, or between a commit and WORKDIR_REF.
+ */
+export async function diffFiles(fs: any, dir: string, fromRef: string | null, toRef: string): Promise<FileDiff[]> {
+    const changes = await walkChanges(fs, dir, fromRef, toRef, true);
+    return changes.map(({ before, after, ...change }) => {
+        const binary = isBinary(before) || isBinary(after);
+        const tooLarge = !binary && ((before?.length || 0) > MAX_DIFF_BYTES || (after?.length || 0) > MAX_DIFF_BYTES);
+        const hunks = binary || tooLarge ? [] : buildHunks(toLines(before), toLines(after));
+        return { ...change, binary, tooLarge, hunks };
+    });
+}
+
+function isBinary(data?: Uint8Array) {
+    if (!data) return false;
+    const end = Math.min(data.length, 8000);
+    for (let i = 0; i < end; i++) {
+        if (data[i] === 0) return true;
+    }
+    return false;
+}
+
+function toLines(data?: Uint8Array): string[] {
+    if (!data || data.length === 0) return [];
+    const text = new TextDecoder().decode(data);
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+/**
+ * Myers O(ND) line diff. Common prefix and suffix are trimmed first, and the search
+ * falls back to a full replacement once the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < start; i++) result.push({ type: 'context', text: a[i], oldNo: i + 1, newNo: i + 1 });
+    result.push(...myersMiddle(a, b, start, endA, endB));
+    for (let i = 0; i < a.length - endA; i++) {
+        result.push({ type: 'context', text: a[endA + i], oldNo: endA + i + 1, newNo: endB + i + 1 });
+    }
+    return result;
+}
+
+function myersMiddle(a: string[], b: string[], start: number, endA: number, endB: number): DiffLine[] {
+    const n = endA - start;
+    const m = endB - start;
+    const replaceAll = () => [
+        ...a.slice(start, endA).map((text, i): DiffLine => ({ type: 'del', text, oldNo: start + i + 1 })),
+        ...b.slice(start, endB).map((text, i): DiffLine => ({ type: 'add', text, newNo: start + i + 1 })),
+    ];
+    if (n === 0 || m === 0) return replaceAll();
+
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // trace[d] holds v[k] for k in [-d, d] after round d, used to walk the path backwards
+    const trace: Int32Array[] = [];
+    let found = -1;
+
+    for (let d = 0; d <= max && found < 0; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[start + x] === b[start + y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) found = d;
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+    if (found < 0) return replaceAll();
+
+    const ops: DiffLine[] = [];
+    let x = n;
+    let y = m;
+    for (let d = found; d > 0; d--) {
+        const prev = trace[d - 1];
+        const get = (k: number) => prev[k + d - 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+        const prevX = get(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push({ type: 'context', text: a[start + x - 1], oldNo: start + x, newNo: start + y });
+            x--; y--;
+        }
+        if (x === prevX) {
+            ops.push({ type: 'add', text: b[start + y - 1], newNo: start + y });
+            y--;
+        } else {
+            ops.push({ type: 'del', text: a[start + x - 1], oldNo: start + x });
+            x--;
+        }
+    }
+    while (x > 0 && y > 0) {
+        ops.push({ type: 'context', text: a[start + x - 1], oldNo: start + x, newNo: start + y });
+        x--; y--;
+    }
+    return ops.reverse();
+}
+
+/**
+ * Groups a line diff into unified-diff style hunks with CONTEXT_LINES of context.
+ */
+export function buildHunks(a: string[], b: string[]): DiffHunk[] {
+    const lines = diffLines(a, b);
+    const hunks: DiffHunk[] = [];
+    let current: DiffLine[] = [];
+    let trailingContext = 0;
+
+    const flush = () => {
+        // Drop surplus trailing context beyond CONTEXT_LINES
+        while (trailingContext > CONTEXT_LINES) { current.pop(); trailingContext--; }
+        if (!current.some(l => l.type !== 'context')) { current = []; return; }
+        const first = current[0];
+        const oldLines = current.filter(l => l.type !== 'add').length;
+        const newLines = current.filter(l => l.type !== 'del').length;
+        const oldStart = first.oldNo ?? (current.find(l => l.oldNo)?.oldNo ?? 1);
+        const newStart = first.newNo ?? (current.find(l => l.newNo)?.newNo ?? 1);
+        hunks.push({ oldStart: oldLines ? oldStart : oldStart - 1, oldLines, newStart: newLines ? newStart : newStart - 1, newLines, lines: current });
+        current = [];
+        trailingContext = 0;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.type === 'context') {
+            if (current.length === 0) continue;
+            current.push(line);
+            trailingContext++;
+            if (trailingContext > CONTEXT_LINES * 2) flush();
+        } else {
+            if (current.length === 0) {
+                // Start a new hunk with up to CONTEXT_LINES of leading context
+                for (let j = Math.max(0, i - CONTEXT_LINES); j < i; j++) current.push(lines[j]);
+            }
+            current.push(line);
+            trailingContext = 0;
+        }
+    }
+    flush();
+    return hunks;
+}
@@ -1,13 +1,23 @@
-import { FileNode } from '../types';
+import { AuthRequest, ExtensionStatus, FileContent, FileDiff, FileNode, FileStatus, FuzzyMatch, GitAuthor, GitCredential, ImportResult, LocalRefs, LogPage, OperationProgress, ProxyHealth, ProxySettings, RepoMeta, RevertResult, SearchMatch, SearchOptions, SearchSummary, ServerRefs, SyncJournalSummary, SyncPlan, SyncPlanEntry, SyncResult, SyncRules } from '../types';
+import { credentialService } from './credentialService';
+import { ActionPayload, ActionResult, BridgeStreamResponse, FromWorker, PROTOCOL_VERSION, ProgressPayload, ToWorker, WorkerAction, WorkerRequest, workerError } from './workerProtocol';
+
+// Version of the page <-> extension messages this app speaks, BRIDGE_PROTOCOL in extension/background.js
+const EXTENSION_PROTOCOL = 2;
+// The content script runs at document_start, so an installed bridge answers at once
+const EXTENSION_PING_TIMEOUT_MS = 1000;
 
 export class GitService {
   private worker: Worker;
   private pendingRequests: Map<string, {
     resolve: (val: any) => void,
     reject: (err: any) => void,
-    onProgress?: (msg: string) => void
+    onProgress?: (payload: ProgressPayload) => void
   }> = new Map();
+  private nextRequestId = 1;
+  private extensionStatus: Promise<ExtensionStatus> | null = null;
   private localConnected = false;
+  private authHandler: ((request: AuthRequest) => Promise<GitCredential | null>) | null = null;
 
   private isReady = false;
   private readyPromise: Promise<void>;
@@ -18,7 +28,7 @@ export class GitService {
     this.worker.onmessage = this.handleWorkerMessage.bind(this);
     this.worker.onerror = (e) => {
       console.error('GitWorker Error:', e);
-      this.pendingRequests.forEach(req => req.reject(new Error('Worker crashed')));
+      this.pendingRequests.forEach(req => req.reject(workerError('WORKER_CRASHED', 'Worker crashed')));
       this.pendingRequests.clear();
     };
 
@@ -27,16 +37,23 @@ export class GitService {
         if (!this.isReady) {
           const msg = 'GitWorker failed to signal ready within 10s. Probable load error.';
           console.error(msg);
-          reject(new Error(msg));
+          reject(workerError('TIMEOUT', msg));
         }
       }, 10000);
 
-      const checkReady = (e: MessageEvent) => {
+      const checkReady = (e: MessageEvent<FromWorker>) => {
         if (e.data.type === 'ready') {
-          console.log('GitWorker Handshake Successful');
-          this.isReady = true;
           clearTimeout(timeout);
           this.worker.removeEventListener('message', checkReady);
+          // A worker script left over from an older build would misread our requests
+          if (e.data.version !== PROTOCOL_VERSION) {
+            const msg = `GitWorker speaks protocol v${e.data.version}, expected v${PROTOCOL_VERSION}. Reload the page.`;
+            console.error(msg);
+            reject(workerError('VERSION_MISMATCH', msg));
+            return;
+          }
+          console.log('GitWorker Handshake Successful');
+          this.isReady = true;
           resolve();
         }
       };
@@ -46,114 +63,157 @@ export class GitService {
     this.initRepo();
   }
 
-  private handleWorkerMessage(e: MessageEvent) {
-    const { id, type, payload } = e.data;
+  private handleWorkerMessage(e: MessageEvent<FromWorker>) {
+    const message = e.data;
 
     // Handle fetch proxy requests from worker
-    if (type === 'EXTENSION_FETCH_PROXY') {
-      this.handleExtensionFetchProxy(id, payload);
+    if (message.type === 'EXTENSION_FETCH_PROXY') {
+      this.handleExtensionFetchProxy(message.payload, e.ports[0]);
       return;
     }
 
-    const request = this.pendingRequests.get(id);
+    if (message.type === 'AUTH_REQUEST') {
+      this.handleAuthRequest(message.id, message.payload);
+      return;
+    }
+
+    // 'ready' and the worker's console output belong to no request
+    if (!('id' in message)) return;
+    const request = this.pendingRequests.get(message.id);
     if (!request) return;
 
-    if (type === 'progress') {
-      request.onProgress?.(payload);
-    } else if (type === 'success') {
-      request.resolve(payload);
-      this.pendingRequests.delete(id);
-    } else if (type === 'error') {
-      request.reject(new Error(payload));
-      this.pendingRequests.delete(id);
+    if (message.type === 'progress') {
+      request.onProgress?.(message.payload);
+    } else if (message.type === 'success') {
+      request.resolve(message.payload);
+      this.pendingRequests.delete(message.id);
+    } else if (message.type === 'error') {
+      const { code, message: text, detail } = message.payload;
+      request.reject(workerError(code, text, detail));
+      this.pendingRequests.delete(message.id);
+    }
+  }
+
+  private postToWorker(message: ToWorker, transfers: Transferable[] = []) {
+    this.worker.postMessage(message, transfers);
+  }
+
+  /**
+   * Hands the worker's stream port on to the extension's content script, which then talks
+   * to the worker directly; the response never passes through this thread.
+   */
+  private async handleExtensionFetchProxy({ url }: { url: string }, port: MessagePort) {
+    // Without the bridge the worker would only give up after its timeout
+    const status = await this.detectExtension();
+    let error: string | null = null;
+    if (status.state === 'absent') error = `${new URL(url).host} doesn't allow browser access. Turn on the CORS proxy or install the extension bridge.`;
+    if (status.state === 'outdated') error = `The extension bridge (v${status.version}) is outdated. Update it from the extension folder.`;
+    if (error) {
+      const reply: BridgeStreamResponse = { type: 'error', message: error, refused: true };
+      port.postMessage(reply);
+      port.close();
+      return;
     }
+    window.postMessage({ source: 'cors-unblock-inject', type: 'GIT_FETCH_STREAM' }, window.location.origin, [port]);
+  }
+
+  /**
+   * Registers the UI callback used when the worker needs credentials that
+   * are not available from the unlocked credential vault.
+   */
+  setAuthHandler(handler: ((request: AuthRequest) => Promise<GitCredential | null>) | null) {
+    this.authHandler = handler;
   }
 
-  private async handleExtensionFetchProxy(requestId: string, payload: any) {
+  private async handleAuthRequest(requestId: string, { url, failed }: { url: string; failed: boolean }) {
+    const host = new URL(url).host;
+    let credential: GitCredential | null = null;
     try {
-      const result = await this.proxyRequestViaExtension(payload);
-      // Transfer the buffer if possible
-      const transfers = result.body?.[0] instanceof Uint8Array ? [result.body[0].buffer] : [];
-      this.worker.postMessage({ id: requestId, type: 'EXTENSION_FETCH_RESULT', payload: result }, transfers as any);
+      if (!failed && credentialService.isUnlocked) {
+        credential = await credentialService.get(host);
+      }
+      if (!credential && this.authHandler) {
+        credential = await this.authHandler({ url, host, failed });
+      }
     } catch (err: any) {
-      this.worker.postMessage({ id: requestId, type: 'EXTENSION_FETCH_RESULT', error: err.message });
+      console.error(`[GitService] Failed to get credentials for ${host}:`, err);
     }
+    this.postToWorker({ id: requestId, type: 'AUTH_RESULT', payload: credential });
   }
 
-  private async proxyRequestViaExtension({ url, method, headers, body }: any): Promise<any> {
+  /**
+   * Posts a message to the CORS Unblock extension's content script and waits for its answer.
+   * Replies are only accepted from this window, and messages only go to this origin.
+   */
+  private postToExtension(type: string, data: any, timeoutMs: number): Promise<any> {
     return new Promise((resolve, reject) => {
       const id = Math.random().toString(36).slice(2);
+      const timeout = setTimeout(() => {
+        window.removeEventListener('message', handler);
+        reject(new Error('Extension response timeout'));
+      }, timeoutMs);
       const handler = (event: MessageEvent) => {
+        if (event.source !== window || event.origin !== window.location.origin) return;
         if (event.data?.source === 'cors-unblock-content' && event.data?.id === id) {
+          clearTimeout(timeout);
           window.removeEventListener('message', handler);
-          if (event.data.error) return reject(new Error(event.data.error));
-
-          const response = event.data.result;
-          let data = response.data;
-
-          if (!(data instanceof Uint8Array)) {
-            if (Array.isArray(data)) {
-              data = new Uint8Array(data);
-            } else if (data && typeof data === 'object' && typeof data.length === 'number') {
-              // Handle serialized object {0:..., 1:..., length:...}
-              const arr = new Uint8Array(data.length);
-              for (let i = 0; i < data.length; i++) {
-                arr[i] = (data as any)[i];
-              }
-              data = arr;
-            } else if (data && typeof data === 'object') {
-              // Fallback for objects without length
-              const values = Object.values(data);
-              data = new Uint8Array(values as number[]);
-            } else {
-              data = new Uint8Array(0);
-            }
-          }
-
-          resolve({
-            url: response.url || url,
-            method,
-            headers: response.headers,
-            body: [data],
-            statusCode: response.status,
-            statusMessage: response.statusText
-          });
+          const result = event.data.result;
+          if (result?.error) reject(new Error(result.error));
+          else resolve(result);
         }
       };
-
       window.addEventListener('message', handler);
-      console.log(`[GitService] Proxying ${method} ${url} (${body?.length || 0} bytes body)`);
-      window.postMessage({
-        source: 'cors-unblock-inject',
-        id,
-        type: 'GIT_FETCH',
-        data: { url, method, headers, body }
-      }, '*');
-
-      setTimeout(() => {
-        window.removeEventListener('message', handler);
-        reject(new Error('Extension response timeout'));
-      }, 60000);
+      window.postMessage({ source: 'cors-unblock-inject', id, type, data }, window.location.origin);
     });
   }
 
-  private async sendWorkerRequest(type: string, payload?: any, transfers?: Transferable[], onProgress?: (msg: string) => void): Promise<any> {
+  /**
+   * Whether the CORS Unblock extension is installed and speaks this app's bridge protocol.
+   * The answer is kept; pass force to ask again, e.g. after installing the extension.
+   */
+  detectExtension(force = false): Promise<ExtensionStatus> {
+    if (!this.extensionStatus || force) {
+      this.extensionStatus = this.postToExtension('PING', null, EXTENSION_PING_TIMEOUT_MS).then(
+        (pong): ExtensionStatus => ({
+          state: pong?.protocol === EXTENSION_PROTOCOL ? 'present' : 'outdated',
+          version: pong?.version ?? null,
+        }),
+        (): ExtensionStatus => ({ state: 'absent', version: null })
+      );
+    }
+    return this.extensionStatus;
+  }
+
+  private async sendWorkerRequest<A extends WorkerAction>(type: A, payload: ActionPayload<A>, transfers?: Transferable[], onProgress?: (payload: ProgressPayload) => void, signal?: AbortSignal): Promise<ActionResult<A>> {
     await this.readyPromise;
-    const id = Math.random().toString(36).slice(2);
+    signal?.throwIfAborted();
+    const id = String(this.nextRequestId++);
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
+      // Requests the caller can cancel run as long as they need to; the rest give up after 5 minutes
+      const timeout = signal ? undefined : setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
-          reject(new Error(`Worker request ${type} timed out`));
+          reject(workerError('TIMEOUT', `Worker request ${type} timed out`));
         }
-      }, 300000); // Increased to 5 minutes for large clones/syncs
+      }, 300000);
+
+      // Aborting rejects right away; the worker is told to stop and its late reply is ignored
+      const onAbort = () => {
+        if (!this.pendingRequests.has(id)) return;
+        this.pendingRequests.delete(id);
+        clearTimeout(timeout);
+        this.postToWorker({ type: 'cancel', payload: { targetId: id } });
+        reject(new DOMException(`Worker request ${type} was cancelled`, 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       this.pendingRequests.set(id, {
-        resolve: (val) => { clearTimeout(timeout); resolve(val); },
-        reject: (err) => { clearTimeout(timeout); reject(err); },
+        resolve: (val) => { clearTimeout(timeout); signal?.removeEventListener('abort', onAbort); resolve(val); },
+        reject: (err) => { clearTimeout(timeout); signal?.removeEventListener('abort', onAbort); reject(err); },
         onProgress
       });
-      this.worker.postMessage({ id, type, payload }, transfers || []);
+      // TypeScript can't tie a generic action to its member of the WorkerRequest union
+      this.postToWorker({ id, type, payload } as WorkerRequest, transfers);
     });
   }
 
@@ -191,7 +251,7 @@ export class GitService {
   }
 
   async initRepo() {
-    return this.sendWorkerRequest('init');
+    return this.sendWorkerRequest('init', undefined);
   }
 
   useLocalFS(handle: FileSystemDirectoryHandle) {
@@ -203,35 +263,207 @@ export class GitService {
     return this.localConnected;
   }
 
-  async clone(url: string, ref: string = 'main', useProxy: boolean = false, onProgress?: (msg: string) => void) {
-    return this.sendWorkerRequest('clone', { url, ref, useProxy }, [], onProgress);
+  async listRepos(): Promise<RepoMeta[]> {
+    return this.sendWorkerRequest('listRepos', undefined);
   }
 
-  async pull(url: string, ref: string = 'main', useProxy: boolean = false, onProgress?: (msg: string) => void) {
-    return this.sendWorkerRequest('pull', { url, ref, useProxy }, [], onProgress);
+  /**
+   * Registers a repository in the workspace. With storage 'disk' it is cloned into the
+   * currently mapped folder, .git included, instead of into the browser's storage.
+   */
+  async addRepo(url: string, ref: string = 'main', useProxy: boolean = false, storage: RepoMeta['storage'] = 'browser'): Promise<RepoMeta> {
+    return this.sendWorkerRequest('addRepo', { url, ref, useProxy, storage });
   }
 
-  async getFileTree(): Promise<FileNode[]> {
-    return this.sendWorkerRequest('getFileTree');
+  /**
+   * Adds an existing checkout (a folder containing .git) to the workspace for browsing.
+   * It is opened read-only: nothing is cloned, fetched or written. Opening a folder that
+   * is already in the workspace reconnects it instead.
+   */
+  async openLocalRepo(handle: FileSystemDirectoryHandle): Promise<RepoMeta> {
+    return this.sendWorkerRequest('openLocalRepo', { handle });
   }
 
-  async readFile(path: string): Promise<string> {
-    return this.sendWorkerRequest('readFile', { path });
+  async removeRepo(repoId: string) {
+    return this.sendWorkerRequest('removeRepo', { repoId });
   }
 
-  async syncToLocal(path: string, onProgress?: (payload: any) => void) {
-    return this.sendWorkerRequest('syncToLocal', { path }, [], onProgress);
+  /**
+   * onProgress gets the server's messages as strings and the transfer's progress as
+   * OperationProgress. Abort the signal to cancel the clone; once the objects are
+   * downloaded the checkout still finishes in the worker.
+   */
+  async clone(repoId: string, url: string, ref: string = 'main', useProxy: boolean = false, onProgress?: (update: string | OperationProgress) => void, signal?: AbortSignal): Promise<RepoMeta> {
+    return this.sendWorkerRequest('clone', { repoId, url, ref, useProxy }, [], onProgress, signal);
   }
 
-  async syncAll(onProgress?: (payload: any) => void) {
-    return this.syncToLocal('/repo', onProgress);
+  async pull(repoId: string, url: string, ref: string = 'main', useProxy: boolean = false, onProgress?: (update: string | OperationProgress) => void, signal?: AbortSignal): Promise<RepoMeta> {
+    return this.sendWorkerRequest('pull', { repoId, url, ref, useProxy }, [], onProgress, signal);
   }
 
-  async resetApp() {
-    return this.sendWorkerRequest('wipe');
+  async log(repoId: string, offset: number = 0, limit: number = 30, onProgress?: (update: string | OperationProgress) => void, signal?: AbortSignal): Promise<LogPage> {
+    return this.sendWorkerRequest('log', { repoId, offset, limit }, [], onProgress, signal);
+  }
+
+  async status(repoId: string): Promise<FileStatus[]> {
+    return this.sendWorkerRequest('status', { repoId });
+  }
+
+  async stage(repoId: string, paths: string[]): Promise<FileStatus[]> {
+    return this.sendWorkerRequest('stage', { repoId, paths });
+  }
+
+  async unstage(repoId: string, paths: string[]): Promise<FileStatus[]> {
+    return this.sendWorkerRequest('unstage', { repoId, paths });
+  }
+
+  async getAuthor(repoId: string): Promise<GitAuthor> {
+    return this.sendWorkerRequest('getAuthor', { repoId });
+  }
+
+  async commit(repoId: string, message: string, author: GitAuthor): Promise<string> {
+    return this.sendWorkerRequest('commit', { repoId, message, author });
+  }
+
+  async push(repoId: string, onProgress?: (update: string | OperationProgress) => void, signal?: AbortSignal) {
+    return this.sendWorkerRequest('push', { repoId }, [], onProgress, signal);
+  }
+
+  /**
+   * Diffs two commit-ish refs. `from` may be null for the empty tree and `to` may be
+   * 'WORKDIR' to compare against the checked-out files.
+   */
+  async diff(repoId: string, from: string | null, to: string): Promise<FileDiff[]> {
+    return this.sendWorkerRequest('diff', { repoId, from, to });
+  }
+
+  async listServerRefs(url: string, useProxy: boolean = false): Promise<ServerRefs> {
+    return this.sendWorkerRequest('listServerRefs', { url, useProxy });
+  }
+
+  async listRefs(repoId: string): Promise<LocalRefs> {
+    return this.sendWorkerRequest('listRefs', { repoId });
+  }
+
+  async checkout(repoId: string, ref: string, onProgress?: (update: string | OperationProgress) => void, signal?: AbortSignal): Promise<RepoMeta> {
+    return this.sendWorkerRequest('checkout', { repoId, ref }, [], onProgress, signal);
+  }
+
+  async createBranch(repoId: string, name: string, checkout: boolean = true, startPoint?: string): Promise<RepoMeta> {
+    return this.sendWorkerRequest('createBranch', { repoId, name, checkout, startPoint });
   }
 
-  useVirtualFS() { }
+  async getFileTree(repoId: string): Promise<FileNode[]> {
+    return this.sendWorkerRequest('getFileTree', { repoId });
+  }
+
+  /**
+   * Reads a file as raw bytes with its detected MIME type and text encoding.
+   * Pass encoding to decode the text with a specific TextDecoder label instead.
+   */
+  async readFile(repoId: string, path: string, encoding?: string): Promise<FileContent> {
+    return this.sendWorkerRequest('readFile', { repoId, path, encoding });
+  }
+
+  async writeFile(repoId: string, path: string, content: string) {
+    return this.sendWorkerRequest('writeFile', { repoId, path, content });
+  }
+
+  /**
+   * Fuzzy-matches query against every file path in the repo.
+   * The path index lives in the worker and is refreshed after clone and pull.
+   */
+  async findFiles(repoId: string, query: string, limit = 50): Promise<FuzzyMatch[]> {
+    return this.sendWorkerRequest('findFiles', { repoId, query, limit });
+  }
+
+  /**
+   * Searches the working tree, streaming matches to onMatches as they are found.
+   * Abort the signal to stop the search early.
+   */
+  async search(repoId: string, options: SearchOptions, onMatches: (matches: SearchMatch[]) => void, signal?: AbortSignal): Promise<SearchSummary> {
+    return this.sendWorkerRequest('search', { repoId, options }, [], (payload) => {
+      if (typeof payload !== 'string' && payload.type === 'searchMatches') onMatches(payload.matches);
+    }, signal);
+  }
+
+  /**
+   * Dry run of a sync to the mapped local folder: lists the files that would be
+   * created, updated or deleted without touching anything. Include '' in paths
+   * to mirror the whole repo, which also plans deleting local-only files.
+   */
+  async planSync(repoId: string, paths: string[], onProgress?: (progress: OperationProgress) => void, signal?: AbortSignal): Promise<SyncPlan> {
+    return this.sendWorkerRequest('planSync', { repoId, paths }, [], onProgress, signal);
+  }
+
+  /**
+   * Applies the approved entries of a sync plan. Entries whose local file changed
+   * after planning are skipped unless they were planned as overwriting local changes.
+   * A cancelled sync stops between files; the files already written can be reverted.
+   */
+  async syncToLocal(repoId: string, entries: SyncPlanEntry[], onProgress?: (progress: OperationProgress) => void, signal?: AbortSignal): Promise<SyncResult> {
+    return this.sendWorkerRequest('syncToLocal', { repoId, entries }, [], onProgress, signal);
+  }
+
+  /**
+   * The newest journaled sync of this repo to the mapped folder, or null if there is nothing to revert.
+   */
+  async getLastSync(repoId: string): Promise<SyncJournalSummary | null> {
+    return this.sendWorkerRequest('getLastSync', { repoId });
+  }
+
+  /**
+   * Restores the files touched by the last sync to their previous local contents.
+   * Files edited locally since that sync are left alone and reported as skipped.
+   */
+  async revertLastSync(repoId: string, onProgress?: (progress: OperationProgress) => void): Promise<RevertResult> {
+    return this.sendWorkerRequest('revertLastSync', { repoId }, [], onProgress);
+  }
+
+  /**
+   * Include/exclude globs, protected paths and .gitignore handling for syncing this repo
+   * with the currently mapped folder. Rules are saved per repo and folder.
+   */
+  async getSyncRules(repoId: string): Promise<SyncRules> {
+    return this.sendWorkerRequest('getSyncRules', { repoId });
+  }
+
+  async setSyncRules(repoId: string, rules: SyncRules): Promise<SyncRules> {
+    return this.sendWorkerRequest('setSyncRules', { repoId, rules });
+  }
+
+  /**
+   * Writes files changed in the mapped local folder into the repo's working tree.
+   * Files that also changed in the repo since the last sync, and the skip paths, are reported as conflicts.
+   * Pass overwrite to import just those conflicting files, replacing the repository version.
+   */
+  async syncFromLocal(repoId: string, skip: string[] = [], overwrite?: string[]): Promise<ImportResult> {
+    return this.sendWorkerRequest('syncFromLocal', { repoId, path: '', paths: overwrite, force: !!overwrite, skip });
+  }
+
+  async getProxySettings(): Promise<ProxySettings> {
+    return this.sendWorkerRequest('getProxySettings', undefined);
+  }
+
+  /**
+   * Saves the CORS proxies used when the proxy is switched on. They are tried in order:
+   * a proxy that is unreachable or can't reach the git server is skipped for a minute
+   * and the request is repeated through the next one.
+   */
+  async setProxySettings(settings: ProxySettings): Promise<ProxySettings> {
+    return this.sendWorkerRequest('setProxySettings', { settings });
+  }
+
+  /**
+   * Probes the given proxy endpoints, or the saved ones, and reports which respond.
+   */
+  async checkProxies(endpoints?: string[]): Promise<ProxyHealth[]> {
+    return this.sendWorkerRequest('checkProxies', { endpoints });
+  }
+
+  async resetApp() {
+    return this.sendWorkerRequest('wipe', undefined);
+  }
 }
 
 export const gitService = new GitService();
@@ -9,15 +9,60 @@ console.log = (...args) => {
 
 import git from 'isomorphic-git';
 import FS from '@isomorphic-git/lightning-fs';
+import type { CommitEntry, FileChange, FileStatus, FuzzyMatch, GitAuthor, ImportResult, LocalRefs, OperationProgress, ProxySettings, RepoMeta, SearchMatch, SearchOptions, SearchSummary, ServerRefs, RevertResult, SyncJournalSummary, SyncPlan, SyncPlanEntry, SyncResult, SyncRules } from '../types';
+import { compileGlobs } from './globMatch';
+import { fuzzyFilter } from './fuzzyMatch';
+import { inspectFile, MAX_READ_BYTES } from './fileContent';
+import { IdbStore } from './idbStore';
+import { LocalFSService } from './localFSService';
+import { MountedFS } from './mountedFS';
+import { diffFiles, diffTrees, resolveCommitish } from './gitDiff';
+import { normalizeProxy, ProxyPool } from './proxyPool';
+import { classifyImport, classifyLocalDeletion, compileSyncRules, forgetSynced, planCleanupEntry, planMirrorEntry, recordSynced, SyncRecord, unchangedSinceSync } from './syncPlan';
+import { ActionResult, BridgeStreamRequest, BridgeStreamResponse, PROTOCOL_VERSION, ToWorker, WorkerAction, WorkerErrorCode, WorkerErrorInfo, WorkerReply, workerError } from './workerProtocol';
 
-const CORS_PROXY = 'https://still-glade-5ccb.mymobilebookmark.workers.dev/';
+// Used until the user configures their own proxies
+const DEFAULT_PROXIES = ['https://still-glade-5ccb.mymobilebookmark.workers.dev'];
+const DEFAULT_PROXY_SETTINGS: ProxySettings = { endpoints: DEFAULT_PROXIES, retries: 3 };
+const MAX_RETRIES = 10;
+// Status codes of a proxy that couldn't reach the git server, worth trying another proxy for
+const PROXY_GATEWAY_ERRORS = new Set([502, 503, 504]);
+// Answers of a server that is busy or briefly broken, worth asking again after a pause
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+// Backoff before the nth retry: 1s, 2s, 4s... up to the cap, unless the server says otherwise
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+const proxySettings = new IdbStore<ProxySettings>('proxy-settings');
+const proxies = new ProxyPool(self.location.origin);
+let retryLimit = DEFAULT_PROXY_SETTINGS.retries;
+const proxiesLoaded = loadProxySettings().then(applyProxySettings);
+
+// Settings saved before retries existed get the default for them
+async function loadProxySettings(): Promise<ProxySettings> {
+    return { ...DEFAULT_PROXY_SETTINGS, ...await proxySettings.get('default') };
+}
+
+function applyProxySettings(settings: ProxySettings) {
+    proxies.setEndpoints(settings.endpoints);
+    retryLimit = settings.retries;
+}
+
+// The corsProxy option for isomorphic-git
+async function corsProxyFor(useProxy: boolean): Promise<string | undefined> {
+    if (!useProxy) return undefined;
+    await proxiesLoaded;
+    const proxy = proxies.current();
+    if (!proxy) throw workerError('INVALID_REQUEST', 'No CORS proxy configured. Add one in the proxy settings or turn the proxy off.');
+    return proxy;
+}
 
 interface GitHttpResponse {
     url: string;
     method?: string;
     statusCode: number;
     statusMessage: string;
-    body?: Uint8Array[];
+    body?: Uint8Array[] | AsyncIterableIterator<Uint8Array>;
     headers?: any;
 }
 
@@ -27,6 +72,10 @@ interface HttpClient {
         method?: string;
         headers?: any;
         body?: any;
+        // Not passed by isomorphic-git; added by forOperation for the action making the request
+        signal?: AbortSignal;
+        onBytes?: (count: number) => void;
+        onRetry?: (message: string) => void;
     }): Promise<GitHttpResponse>;
 }
 
@@ -50,98 +99,631 @@ async function collectBody(body: any): Promise<Uint8Array | null> {
     return new Uint8Array(body);
 }
 
+// Long enough for the user to answer the extension's approval window for a new host
+const EXTENSION_HEAD_TIMEOUT_MS = 60000;
+
 /**
- * Smart Git HTTP module for Worker
- * Differentiates between simple and complex requests for CORS Unblock extension
+ * Fetches through the extension bridge over a MessagePort that the main thread passes on
+ * to the content script. Resolves once the headers arrive; the body is an async iterable
+ * fed by the extension's chunks, each acknowledged as isomorphic-git reads it.
  */
-const http: HttpClient = {
-    async request({ url, method, headers, body }: any): Promise<GitHttpResponse> {
-        const u = new URL(url);
-        const isCrossOrigin = u.origin !== self.location.origin;
-        const isUsingKnownProxy = url.startsWith(CORS_PROXY);
-
-        // Collect body if present
-        const collectedBody = await collectBody(body);
-
-        // 1. Strategy: Proxy all cross-origin requests via main thread/extension if not using official proxy
-        if (isCrossOrigin && !isUsingKnownProxy) {
-            console.log(`[Worker] Proxying request: ${method} ${url} (${collectedBody?.length || 0} bytes body)`);
-            return new Promise((resolve, reject) => {
-                const requestId = Math.random().toString(36).slice(2);
-                const handleMessage = (e: MessageEvent) => {
-                    if (e.data.id === requestId && e.data.type === 'EXTENSION_FETCH_RESULT') {
-                        self.removeEventListener('message', handleMessage);
-                        if (e.data.error) {
-                            console.error(`[Worker] Proxy error for ${url}:`, e.data.error);
-                            reject(new Error(e.data.error));
-                        } else {
-                            const res = e.data.payload;
-                            // Ensure body is an array of Uint8Array as expected by isomorphic-git
-                            let chunks: Uint8Array[] = [];
-                            if (res.body && Array.isArray(res.body)) {
-                                chunks = res.body.map(c => new Uint8Array(c));
-                            } else if (res.body) {
-                                chunks = [new Uint8Array(res.body)];
-                            }
+function fetchViaExtension({ url, method, headers, body, signal, onBytes }: {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body: Uint8Array | null;
+    signal?: AbortSignal;
+    onBytes?: (count: number) => void;
+}): Promise<GitHttpResponse> {
+    return new Promise((resolve, reject) => {
+        const channel = new MessageChannel();
+        const port = channel.port1;
+        const send = (message: BridgeStreamRequest, transfers: Transferable[] = []) => port.postMessage(message, transfers);
 
-                            const bodyLength = chunks.reduce((acc, c) => acc + c.length, 0);
-                            const protoHdr = res.headers?.['content-type'] || 'unknown';
-                            console.log(`[Worker] Proxy response for ${url}: status=${res.statusCode}, type=${protoHdr}, body=${bodyLength} bytes`);
+        const chunks: Uint8Array[] = [];
+        let nextSeq = 0;
+        let ended = false;
+        let failure: Error | null = null;
+        let wake: (() => void) | null = null;
+        const notify = () => {
+            const w = wake;
+            wake = null;
+            w?.();
+        };
 
-                            // Log all headers for deep debugging if it's a git-upload-pack or info/refs
-                            if (url.includes('git-upload-pack') || url.includes('info/refs')) {
-                                console.log(`[Worker] Headers for ${url}:`, JSON.stringify(res.headers));
-                            }
+        const close = () => {
+            clearTimeout(timeout);
+            signal?.removeEventListener('abort', onAbort);
+            port.close();
+        };
+        // Rejects the pending response, or ends the body with this error once it is being read
+        const fail = (err: Error) => {
+            if (failure || ended) return;
+            failure = err;
+            reject(err);
+            notify();
+            close();
+        };
+        const onAbort = () => {
+            send({ type: 'cancel' });
+            fail(signal.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const timeout = setTimeout(() => fail(workerError('NETWORK', 'The extension bridge did not answer in time')), EXTENSION_HEAD_TIMEOUT_MS);
 
-                            resolve({
-                                url: res.url || url,
-                                method,
-                                headers: res.headers,
-                                body: chunks,
-                                statusCode: res.statusCode,
-                                statusMessage: res.statusMessage
-                            });
-                        }
+        async function* readBody(): AsyncIterableIterator<Uint8Array> {
+            try {
+                while (true) {
+                    if (chunks.length > 0) {
+                        const chunk = chunks.shift();
+                        send({ type: 'ack' });
+                        yield chunk;
+                    } else if (failure) {
+                        throw failure;
+                    } else if (ended) {
+                        return;
+                    } else {
+                        await new Promise<void>(resolve => { wake = resolve; });
                     }
-                };
-                self.addEventListener('message', handleMessage);
+                }
+            } finally {
+                // isomorphic-git stopped reading early: no need for the rest
+                if (!ended && !failure) {
+                    send({ type: 'cancel' });
+                    failure = new Error('Response body abandoned');
+                    close();
+                }
+            }
+        }
 
-                (self as any).postMessage({
-                    type: 'EXTENSION_FETCH_PROXY',
-                    id: requestId,
-                    payload: {
-                        url,
+        port.onmessage = (e: MessageEvent<BridgeStreamResponse>) => {
+            const message = e.data;
+            switch (message.type) {
+                case 'head':
+                    clearTimeout(timeout);
+                    console.log(`[Worker] Proxy response for ${url}: status=${message.status}, type=${message.headers?.['content-type'] || 'unknown'}`);
+                    resolve({
+                        url: message.url || url,
                         method,
-                        headers,
-                        body: collectedBody
+                        headers: message.headers,
+                        body: readBody(),
+                        statusCode: message.status,
+                        statusMessage: message.statusText
+                    });
+                    break;
+                case 'chunk':
+                    if (message.seq !== nextSeq) {
+                        send({ type: 'cancel' });
+                        fail(workerError('NETWORK', `Extension stream out of order: expected chunk ${nextSeq}, got ${message.seq}`));
+                        break;
                     }
-                }, collectedBody ? [collectedBody.buffer] : []);
-            });
-        }
+                    nextSeq++;
+                    chunks.push(message.data);
+                    onBytes?.(message.data.length);
+                    notify();
+                    break;
+                case 'end':
+                    ended = true;
+                    notify();
+                    close();
+                    break;
+                case 'error':
+                    console.error(`[Worker] Proxy error for ${url}:`, message.message);
+                    fail(workerError(message.refused ? 'NO_ACCESS' : 'NETWORK', message.message));
+                    break;
+            }
+        };
+
+        (self as any).postMessage({ type: 'EXTENSION_FETCH_PROXY', id: Math.random().toString(36).slice(2), payload: { url } }, [channel.port2]);
+        // Copied rather than transferred: a retry sends the same body again
+        send({ type: 'request', url, method, headers, body });
+    });
+}
+
+// Fetches and ref discovery only read, so repeating them is safe; a push may already have landed
+function isIdempotent(url: string) {
+    return !url.includes('git-receive-pack');
+}
 
-        // 2. Otherwise use native fetch (for same-origin or official proxy)
-        console.log(`[Worker] Using direct fetch: ${method} ${url}`);
-        const res = await fetch(url, { method, headers, body: collectedBody as any });
-        console.log(`[Worker] Direct fetch response for ${url}: ${res.status} ${res.statusText}`);
-
-        const resBuffer = await res.arrayBuffer();
-        console.log(`[Worker] Direct fetch received ${resBuffer.byteLength} bytes for ${url}`);
-
-        return {
-            url: res.url,
-            method,
-            headers: Object.fromEntries(res.headers.entries()),
-            body: [new Uint8Array(resBuffer)],
-            statusCode: res.status,
-            statusMessage: res.statusText
+// Honours a Retry-After in seconds, otherwise backs off exponentially with jitter
+function retryDelay(attempt: number, retryAfter?: string): number {
+    const seconds = Number(retryAfter);
+    if (retryAfter && Number.isFinite(seconds)) return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+    const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    return backoff / 2 + Math.random() * backoff / 2;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
         };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Reads an unwanted response to the end, so a streamed one releases its extension port
+async function discardBody(res: GitHttpResponse) {
+    if (res.body && !Array.isArray(res.body)) {
+        for await (const _ of res.body) { }
+    }
+}
+
+/**
+ * One attempt at a request, through the extension bridge for cross-origin servers or with
+ * fetch for same-origin ones and configured proxies. A network failure is thrown as a
+ * NETWORK error; any HTTP answer is returned for the caller to judge.
+ */
+async function sendOnce({ url, method, headers, body, signal, onBytes }: {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body: Uint8Array | null;
+    signal?: AbortSignal;
+    onBytes?: (count: number) => void;
+}): Promise<GitHttpResponse> {
+    signal?.throwIfAborted();
+    const u = new URL(url);
+    const isCrossOrigin = u.origin !== self.location.origin;
+    const isUsingKnownProxy = !!proxies.owner(url);
+
+    // 1. Strategy: Proxy all cross-origin requests via main thread/extension if not using official proxy
+    if (isCrossOrigin && !isUsingKnownProxy) {
+        console.log(`[Worker] Proxying request: ${method} ${url} (${body?.length || 0} bytes body)`);
+        return fetchViaExtension({ url, method, headers, body, signal, onBytes });
+    }
+
+    // 2. Otherwise use native fetch (for same-origin or official proxy)
+    console.log(`[Worker] Using direct fetch: ${method} ${url}`);
+    // A proxy that is down or can't reach the server is swapped for the next configured one
+    const retryThroughNextProxy = (reason: string) => {
+        const next = signal?.aborted ? null : proxies.failover(url);
+        if (!next) return null;
+        console.log(`[Worker] Proxy ${proxies.owner(url)} failed (${reason}), retrying through ${proxies.owner(next)}`);
+        return sendOnce({ url: next, method, headers, body, signal, onBytes });
+    };
+    let res: Response;
+    try {
+        res = await fetch(url, { method, headers, body, signal });
+    } catch (err: any) {
+        if (err?.name === 'AbortError') throw err;
+        const retried = retryThroughNextProxy(err.message);
+        if (retried) return retried;
+        throw workerError('NETWORK', `Could not reach ${u.host}: ${err.message}`);
+    }
+    console.log(`[Worker] Direct fetch response for ${url}: ${res.status} ${res.statusText}`);
+    // Pushes aren't repeated: the first proxy may have delivered the pack before failing
+    if (PROXY_GATEWAY_ERRORS.has(res.status) && isIdempotent(url)) {
+        const retried = retryThroughNextProxy(`${res.status} ${res.statusText}`);
+        if (retried) return retried;
+    }
+
+    // Read chunk by chunk so the download can be shown while it runs
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    if (res.body) {
+        const reader = res.body.getReader();
+        try {
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                chunks.push(chunk.value);
+                received += chunk.value.length;
+                onBytes?.(chunk.value.length);
+            }
+        } catch (err: any) {
+            if (err?.name === 'AbortError') throw err;
+            throw workerError('NETWORK', `Connection to ${u.host} dropped after ${received} bytes: ${err.message}`);
+        }
+    }
+    console.log(`[Worker] Direct fetch received ${received} bytes for ${url}`);
+
+    return {
+        url: res.url,
+        method,
+        headers: Object.fromEntries(res.headers.entries()),
+        body: chunks,
+        statusCode: res.status,
+        statusMessage: res.statusText
+    };
+}
+
+/**
+ * Smart Git HTTP module for Worker
+ * Repeats idempotent requests that fail on the network or with a 5xx, up to the configured
+ * number of retries with exponential backoff. A streamed response is handed to isomorphic-git
+ * as soon as its headers arrive, so only failures before that point can be retried; an
+ * interrupted clone is then retried as a whole by the user, with the previous clone kept.
+ */
+const http: HttpClient = {
+    async request({ url, method, headers, body, signal, onBytes, onRetry }: any): Promise<GitHttpResponse> {
+        await proxiesLoaded;
+        const collectedBody = await collectBody(body);
+        const retries = isIdempotent(url) ? retryLimit : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            const retry = async (reason: string, retryAfter?: string) => {
+                const delay = retryDelay(attempt, retryAfter);
+                console.warn(`[Worker] ${method} ${url} failed (${reason}), retry ${attempt + 1}/${retries} in ${Math.round(delay)} ms`);
+                onRetry?.(`${reason}. Retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${retries})...`);
+                await sleep(delay, signal);
+            };
+
+            let res: GitHttpResponse;
+            try {
+                res = await sendOnce({ url, method, headers, body: collectedBody, signal, onBytes });
+            } catch (err: any) {
+                if (err?.code !== 'NETWORK' || attempt >= retries) throw err;
+                await retry(err.message);
+                continue;
+            }
+            if (!RETRYABLE_STATUS.has(res.statusCode) || attempt >= retries) return res;
+            await discardBody(res);
+            await retry(`${new URL(url).host} answered ${res.statusCode} ${res.statusMessage}`, res.headers?.['retry-after']);
+        }
     }
 };
 
+/**
+ * Asks the main thread for credentials when the server answers 401.
+ * The main thread looks them up in the credential vault or prompts the user;
+ * a null answer cancels the operation.
+ */
+function requestAuth(url: string, failed: boolean): Promise<{ username?: string; password?: string; cancel?: boolean }> {
+    return new Promise(resolve => {
+        const requestId = Math.random().toString(36).slice(2);
+        const handleMessage = (e: MessageEvent) => {
+            if (e.data.id === requestId && e.data.type === 'AUTH_RESULT') {
+                self.removeEventListener('message', handleMessage);
+                const credential = e.data.payload;
+                resolve(credential ? { username: credential.username, password: credential.token } : { cancel: true });
+            }
+        };
+        self.addEventListener('message', handleMessage);
+        console.log(`[Worker] ${failed ? 'Credentials rejected' : 'Authentication required'} for ${new URL(url).host}`);
+        self.postMessage({ type: 'AUTH_REQUEST', id: requestId, payload: { url, failed } });
+    });
+}
+
+// The http client for one action: aborting the signal stops its in-flight requests, and
+// every byte received and every retry is reported to its progress
+function forOperation(client: HttpClient, signal: AbortSignal, progress: Progress): HttpClient {
+    return {
+        request: args => client.request({ ...args, signal, onBytes: count => progress.addBytes(count), onRetry: message => progress.log(message) })
+    };
+}
+
+const authCallbacks = {
+    onAuth: (url: string) => requestAuth(url, false),
+    onAuthFailure: (url: string) => requestAuth(url, true),
+};
 
-const fs = new FS('git-browser-fs');
+// Repositories live in lightning-fs, except disk-backed ones whose directory is mounted over a local folder
+const fs = new MountedFS(new FS('git-browser-fs').promises);
 const pfs = fs.promises;
-const dir = '/repo';
+
+// Workspace layout: every repository lives in its own directory under REPOS_ROOT,
+// and the list of repositories (with their clone settings) is kept in WORKSPACE_FILE.
+const REPOS_ROOT = '/repos';
+// Next to a repository's directory while it is re-cloned (see replaceDir)
+const STAGING_SUFFIX = '.staging';
+const PREVIOUS_SUFFIX = '.previous';
+const WORKSPACE_FILE = '/workspace.json';
+
+function repoDir(repoId: string) {
+    return `${REPOS_ROOT}/${repoId}`;
+}
+
+function toRepoPath(repoId: string, relPath: string = '') {
+    const clean = relPath.replace(/^\/+/, '');
+    return clean ? `${repoDir(repoId)}/${clean}` : repoDir(repoId);
+}
+
+async function loadWorkspace(): Promise<RepoMeta[]> {
+    try {
+        return JSON.parse(await pfs.readFile(WORKSPACE_FILE, 'utf8') as string);
+    } catch (e) {
+        return [];
+    }
+}
+
+// Workspace updates are serialized so concurrent actions don't lose each other's writes
+let workspaceQueue: Promise<unknown> = Promise.resolve();
+
+function updateWorkspace<T>(mutate: (repos: RepoMeta[]) => T | Promise<T>): Promise<T> {
+    const next = workspaceQueue.then(async () => {
+        const repos = await loadWorkspace();
+        const result = await mutate(repos);
+        await pfs.writeFile(WORKSPACE_FILE, JSON.stringify(repos, null, 2), 'utf8');
+        return result;
+    });
+    workspaceQueue = next.catch(() => { });
+    return next;
+}
+
+async function findRepo(repoId: string): Promise<RepoMeta> {
+    const repo = (await loadWorkspace()).find(r => r.id === repoId);
+    if (!repo) throw workerError('NOT_FOUND', `Unknown repository: ${repoId}`);
+    return repo;
+}
+
+// Looks the repo up and makes sure its files are reachable through fs
+async function getRepo(repoId: string): Promise<RepoMeta> {
+    const repo = await findRepo(repoId);
+    if (repo.storage === 'disk') await mountDiskRepo(repo);
+    return repo;
+}
+
+// Disk-backed repos: isomorphic-git works directly in a folder the user picked, .git included,
+// so desktop git sees a normal clone. The folder handles are kept here by repo id.
+const diskRepos = new IdbStore<FileSystemDirectoryHandle>('disk-repos');
+
+async function mountDiskRepo(repo: RepoMeta) {
+    const dir = repoDir(repo.id);
+    if (fs.isMounted(dir)) return;
+    const handle = await diskRepos.get(repo.id);
+    if (!handle) throw workerError('NOT_FOUND', `The folder of ${repo.name} is no longer known. Remove it and clone again.`);
+    // Only the page can ask for permission again, which it does when the folder is picked again
+    if (await (handle as any).queryPermission({ mode: repo.readOnly ? 'read' : 'readwrite' }) !== 'granted') {
+        throw workerError('NO_ACCESS', `No access to ${handle.name}. ${repo.readOnly ? 'Open' : 'Map'} that folder again to open ${repo.name}.`);
+    }
+    const localFs = new LocalFSService(repo.readOnly);
+    await localFs.setRoot(handle);
+    fs.mount(dir, localFs.promises);
+}
+
+// A disk-backed repo already is the local folder, so the sync actions don't apply
+function requireBrowserStorage(repo: RepoMeta) {
+    if (repo.storage === 'disk') throw workerError('INVALID_REQUEST', `${repo.name} is cloned directly into its folder, there is nothing to sync`);
+}
+
+function requireWritable(repo: RepoMeta) {
+    if (repo.readOnly) throw workerError('READ_ONLY', `${repo.name} was opened read-only`);
+}
+
+// The disk-backed repo already using this folder, if any
+async function findDiskRepo(handle: FileSystemDirectoryHandle): Promise<RepoMeta | undefined> {
+    for (const repo of await loadWorkspace()) {
+        const known = repo.storage === 'disk' ? await diskRepos.get(repo.id) : undefined;
+        if (known && await known.isSameEntry(handle)) return repo;
+    }
+}
+
+function repoNameFromUrl(url: string) {
+    const last = url.replace(/\/+$/, '').split('/').pop() || 'repo';
+    return last.replace(/\.git$/, '') || 'repo';
+}
+
+// How many extra commits to fetch when the history panel scrolls past a shallow clone's boundary
+const LOG_DEEPEN_BY = 50;
+
+async function readShallowOids(repoPath: string): Promise<Set<string>> {
+    try {
+        const text = await pfs.readFile(`${repoPath}/.git/shallow`, 'utf8') as string;
+        return new Set(text.split('\n').map(line => line.trim()).filter(Boolean));
+    } catch (e) {
+        return new Set();
+    }
+}
+
+/**
+ * Translates isomorphic-git statusMatrix rows ([path, HEAD, WORKDIR, STAGE]) into
+ * FileStatus entries, leaving out unmodified files.
+ */
+async function readStatus(repoPath: string): Promise<FileStatus[]> {
+    const matrix = await git.statusMatrix({ fs, dir: repoPath });
+    const result: FileStatus[] = [];
+    for (const [path, head, workdir, stage] of matrix) {
+        if (head === 1 && workdir === 1 && stage === 1) continue;
+        let kind: FileStatus['kind'];
+        if (head === 0) kind = stage === 0 ? 'untracked' : 'added';
+        else if (workdir === 0) kind = 'deleted';
+        else kind = 'modified';
+        result.push({
+            path,
+            kind,
+            staged: head === 1 ? stage !== 1 : stage !== 0,
+            unstaged: workdir === 0 ? stage !== 0 : workdir === 1 ? stage !== 1 : stage !== 2,
+        });
+    }
+    return result;
+}
+
+// mkdir -p for the parent directories of a file about to be written
+async function ensureParentDirs(filePath: string) {
+    const parts = filePath.split('/').filter(Boolean);
+    let current = '';
+    for (const part of parts.slice(0, -1)) {
+        current += `/${part}`;
+        try { await pfs.mkdir(current); } catch (e) { }
+    }
+}
+
+// Long-running actions register here so a 'cancel' message can stop them by request id.
+// Entries are removed once the action finishes, whichever way it ends.
+const activeOperations = new Map<string, AbortController>();
+
+function registerOperation(id: string): AbortSignal {
+    const controller = new AbortController();
+    activeOperations.set(id, controller);
+    return controller.signal;
+}
+
+function throwIfAborted(signal: AbortSignal) {
+    if (signal.aborted) throw workerError('CANCELLED', 'Operation cancelled');
+}
+
+// isomorphic-git stops at its next progress report, except while it updates the working
+// tree: stopping halfway through a checkout would leave a mix of old and new files
+function abortOnProgress(signal: AbortSignal, progress: Progress) {
+    return ({ phase, loaded, total }: { phase: string; loaded: number; total?: number }) => {
+        if (!/workdir/i.test(phase)) throwIfAborted(signal);
+        progress.update(phase, loaded, total || null);
+    };
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+
+type Progress = ReturnType<typeof createProgress>;
+
+// Posts the progress of one request as OperationProgress events. Updates arrive far more
+// often than the UI can show them, so they are sent at most every PROGRESS_INTERVAL_MS,
+// except the first and last of each phase.
+function createProgress(id: string, phase: string) {
+    const event: OperationProgress = { type: 'progress', phase, loaded: 0, total: null, bytes: 0, rate: null };
+    const startedAt = Date.now();
+    let postedAt = 0;
+
+    const post = (force: boolean) => {
+        const now = Date.now();
+        if (!force && now - postedAt < PROGRESS_INTERVAL_MS) return;
+        postedAt = now;
+        // Averaged over the whole request; too noisy to show in the first second
+        const seconds = (now - startedAt) / 1000;
+        event.rate = seconds >= 1 ? event.bytes / seconds : null;
+        self.postMessage({ id, type: 'progress', payload: { ...event } });
+    };
+
+    return {
+        update(phase: string, loaded: number, total: number | null, path?: string) {
+            const phaseChanged = phase !== event.phase;
+            Object.assign(event, { phase, loaded, total, path });
+            post(phaseChanged || loaded === total);
+        },
+        addBytes(count: number) {
+            event.bytes += count;
+            post(false);
+        },
+        // A line for the log, like the server's own messages
+        log(message: string) {
+            self.postMessage({ id, type: 'progress', payload: message });
+        },
+    };
+}
+
+const SEARCH_MAX_FILE_BYTES = 2 * 1024 * 1024;
+const SEARCH_BATCH_SIZE = 50;
+
+// Search filters and sync rules come from the user, so a bad glob is their request's fault
+function compileUserGlobs(globs: string[]): (path: string) => boolean {
+    try {
+        return compileGlobs(globs);
+    } catch (err: any) {
+        throw workerError('INVALID_REQUEST', err.message);
+    }
+}
+
+function buildSearchRegExp({ query, regex, caseSensitive }: SearchOptions): RegExp {
+    const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * Walks the working tree and reports matches in batches through onBatch.
+ * Binary and very large files are skipped.
+ */
+async function searchRepo(repoPath: string, options: SearchOptions, signal: AbortSignal, onBatch: (matches: SearchMatch[]) => void): Promise<SearchSummary> {
+    const pattern = buildSearchRegExp(options);
+    const isExcluded = compileUserGlobs(options.exclude);
+    const isIncluded = compileUserGlobs(options.include);
+    const summary: SearchSummary = { matches: 0, filesSearched: 0, truncated: false };
+    let batch: SearchMatch[] = [];
+
+    const visit = async (relPath: string): Promise<boolean> => {
+        throwIfAborted(signal);
+        const entries = await pfs.readdir(relPath ? `${repoPath}/${relPath}` : repoPath);
+        for (const name of entries) {
+            if (name === '.git') continue;
+            const childPath = relPath ? `${relPath}/${name}` : name;
+            if (options.exclude.length && isExcluded(childPath)) continue;
+            const stat = await pfs.stat(`${repoPath}/${childPath}`);
+            if (stat.isDirectory()) {
+                if (!await visit(childPath)) return false;
+                continue;
+            }
+            if (options.include.length && !isIncluded(childPath)) continue;
+            if (stat.size > SEARCH_MAX_FILE_BYTES) continue;
+
+            const data = await pfs.readFile(`${repoPath}/${childPath}`) as Uint8Array;
+            if (data.subarray(0, 8000).includes(0)) continue;
+            summary.filesSearched++;
+
+            const lines = new TextDecoder().decode(data).split('\n');
+            for (let i = 0; i < lines.length; i++) {
+                pattern.lastIndex = 0;
+                const match = pattern.exec(lines[i]);
+                if (!match) continue;
+                batch.push({
+                    path: childPath,
+                    line: i + 1,
+                    column: match.index + 1,
+                    length: match[0].length,
+                    preview: lines[i].slice(0, 300),
+                });
+                summary.matches++;
+                if (summary.matches >= options.maxResults) {
+                    summary.truncated = true;
+                    return false;
+                }
+            }
+            if (batch.length >= SEARCH_BATCH_SIZE) {
+                onBatch(batch);
+                batch = [];
+            }
+        }
+        return true;
+    };
+
+    await visit('');
+    if (batch.length) onBatch(batch);
+    return summary;
+}
+
+// Flat list of every file path per repo for quick-open, built once and reused across queries
+const pathIndexes = new Map<string, Promise<string[]>>();
+
+async function listAllPaths(repoPath: string): Promise<string[]> {
+    const paths: string[] = [];
+    const visit = async (relPath: string) => {
+        const entries = await pfs.readdir(relPath ? `${repoPath}/${relPath}` : repoPath);
+        for (const name of entries) {
+            if (name === '.git') continue;
+            const childPath = relPath ? `${relPath}/${name}` : name;
+            const stat = await pfs.stat(`${repoPath}/${childPath}`);
+            if (stat.isDirectory()) await visit(childPath);
+            else paths.push(childPath);
+        }
+    };
+    try { await pfs.stat(repoPath); } catch (e) { return paths; }
+    await visit('');
+    return paths;
+}
+
+function getPathIndex(repoId: string): Promise<string[]> {
+    let index = pathIndexes.get(repoId);
+    if (!index) {
+        index = listAllPaths(repoDir(repoId));
+        pathIndexes.set(repoId, index);
+        // Don't cache a failed build
+        index.catch(() => pathIndexes.delete(repoId));
+    }
+    return index;
+}
+
+// Drops the cached index; pass rebuild to start indexing again right away
+function invalidatePathIndex(repoId: string, rebuild = false) {
+    pathIndexes.delete(repoId);
+    if (rebuild) {
+        getPathIndex(repoId).then(
+            paths => console.log(`[Worker] Indexed ${paths.length} paths for quick open`),
+            () => { }
+        );
+    }
+}
 
 // Helper for recursive delete (needed for clean clones)
 async function recursiveDelete(path: string) {
@@ -182,11 +764,28 @@ async function clearDirContents(path: string) {
     }
 }
 
+/**
+ * Swaps a finished re-clone in for the previous one. Both live in IndexedDB, where a
+ * rename only moves the directory entry, so the previous clone is gone only once the
+ * new one is in place.
+ */
+async function replaceDir(path: string, staging: string) {
+    const previous = `${path}${PREVIOUS_SUFFIX}`;
+    await recursiveDelete(previous);
+    try {
+        await pfs.rename(path, previous);
+    } catch (e) {
+        // First clone into a fresh repository: nothing to keep
+    }
+    await pfs.rename(staging, path);
+    await recursiveDelete(previous);
+}
+
 // Local Sync Logic in Worker
 let localRoot: FileSystemDirectoryHandle | null = null;
 
 async function getLocalHandle(path: string, options: { create?: boolean; type?: 'file' | 'dir' } = {}) {
-    if (!localRoot) throw new Error("Local root not set in worker");
+    if (!localRoot) throw workerError('NO_LOCAL_ROOT', "Local root not set in worker");
     const parts = path.split('/').filter(p => p && p !== '.');
     let current: FileSystemDirectoryHandle = localRoot;
 
@@ -204,18 +803,7 @@ async function getLocalHandle(path: string, options: { create?: boolean; type?:
     return current;
 }
 
-async function countFiles(vPath: string): Promise<number> {
-    const stat = await pfs.stat(vPath);
-    if (!stat.isDirectory()) return 1;
-    const files = await pfs.readdir(vPath);
-    let count = 0;
-    for (const file of files) {
-        count += await countFiles(`${vPath}/${file}`);
-    }
-    return count;
-}
-
-async function calculateHash(data: ArrayBuffer): Promise<string> {
+async function calculateHash(data: BufferSource): Promise<string> {
     const hashBuffer = await crypto.subtle.digest('SHA-256', data);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
@@ -223,7 +811,8 @@ async function calculateHash(data: ArrayBuffer): Promise<string> {
 
 /**
  * Fast consistency check: returns { consistent: boolean, vData?: Uint8Array }
- * If not consistent, returns the virtual file data so we don't have to read it again
+ * Returns the virtual file data so we don't have to read it again; vData is missing
+ * only when the virtual file doesn't exist
  */
 async function checkConsistency(vPath: string, relPath: string): Promise<{ consistent: boolean; vData?: Uint8Array }> {
     try {
@@ -250,17 +839,17 @@ async function checkConsistency(vPath: string, relPath: string): Promise<{ consi
             for (let i = 0; i < vData.length; i++) {
                 if (vData[i] !== lData[i]) return { consistent: false, vData };
             }
-            return { consistent: true };
+            return { consistent: true, vData };
         }
 
         // For larger files, use hash comparison
         const lData = await lFile.arrayBuffer();
         const [vHash, lHash] = await Promise.all([
-            calculateHash(vData.buffer as ArrayBuffer),
-            calculateHash(lData as ArrayBuffer)
+            calculateHash(vData),
+            calculateHash(lData)
         ]);
 
-        return { consistent: vHash === lHash, vData: vHash === lHash ? undefined : vData };
+        return { consistent: vHash === lHash, vData };
     } catch (e) {
         // Any error means we need to sync
         try {
@@ -272,124 +861,799 @@ async function checkConsistency(vPath: string, relPath: string): Promise<{ consi
     }
 }
 
-async function cleanupLocal(relPath: string = '') {
+/**
+ * Mirror cleanup plan: local files that are gone from the virtual repo. Files the last
+ * sync wrote and nobody has edited since are marked safe to delete; anything else is a
+ * local change and has to be approved explicitly. Paths the sync rules exclude or
+ * protect, and ignored ones, are left out entirely.
+ */
+async function planCleanup(repoId: string, baseline: SyncBaseline, filter: SyncFilter, relPath: string, entries: SyncPlanEntry[]) {
     const lHandle = await getLocalHandle(relPath, { type: 'dir' }) as FileSystemDirectoryHandle;
     // Iterate over local files/folders
     for await (const [name, handle] of (lHandle as any).entries()) {
+        if (!relPath && name === '.git') continue;
         const childRelPath = relPath ? `${relPath}/${name}` : name;
-        const vPath = `${dir}/${childRelPath}`;
+        const vPath = toRepoPath(repoId, childRelPath);
+        let inVirtual = true;
+        try { await pfs.stat(vPath); } catch (e) { inVirtual = false; }
+
+        if (!await filter.allows(childRelPath, handle.kind === 'directory')) continue;
+        if (handle.kind === 'directory') {
+            await planCleanup(repoId, baseline, filter, childRelPath, entries);
+            continue;
+        }
+        if (inVirtual) continue;
+
+        const lData = new Uint8Array(await (await (handle as FileSystemFileHandle).getFile()).arrayBuffer());
+        entries.push(planCleanupEntry(childRelPath, lData.length, await calculateHash(lData), baseline.files[childRelPath]));
+    }
+}
 
+// Removes now-empty local directories above relPath that the virtual repo doesn't have either
+async function pruneEmptyLocalDirs(repoId: string, relPath: string) {
+    const parts = relPath.split('/').slice(0, -1);
+    while (parts.length) {
+        const dirPath = parts.join('/');
         try {
-            await pfs.stat(vPath);
-            // Exists in virtual, recurse if directory
-            if (handle.kind === 'directory') {
-                await cleanupLocal(childRelPath);
+            await pfs.stat(toRepoPath(repoId, dirPath));
+            return;
+        } catch (e) { }
+        const dir = await getLocalHandle(dirPath, { type: 'dir' }) as FileSystemDirectoryHandle;
+        if (!await isEmptyDir(dir)) return;
+        const name = parts.pop()!;
+        const parent = await getLocalHandle(parts.join('/'), { type: 'dir' }) as FileSystemDirectoryHandle;
+        await parent.removeEntry(name);
+    }
+}
+
+// The sync record of one repo and the local folder it was synced with
+interface SyncBaseline extends SyncRecord {
+    root: FileSystemDirectoryHandle;
+}
+
+const syncBaselines = new IdbStore<SyncBaseline>('sync-baselines');
+
+async function loadBaseline(repoId: string): Promise<SyncBaseline> {
+    if (!localRoot) throw workerError('NO_LOCAL_ROOT', "Local root not set in worker");
+    const saved = await syncBaselines.get(repoId);
+    // A different folder has never been synced, so nothing in it counts as ours
+    if (saved && await saved.root.isSameEntry(localRoot)) return { ...saved, manifest: saved.manifest ?? {} };
+    return { root: localRoot, files: {}, manifest: {} };
+}
+
+/**
+ * Git blob ids of the working tree files under the given paths ('' is the whole repo).
+ * isomorphic-git answers these from the index's stat cache, so only files changed since
+ * the last commit or checkout are actually read.
+ */
+async function workdirOids(repoId: string, paths: string[]): Promise<Map<string, string>> {
+    const oids = new Map<string, string>();
+    const wanted = (filepath: string) => paths.some(p =>
+        !p || filepath === p || filepath.startsWith(`${p}/`) || p.startsWith(`${filepath}/`));
+    await git.walk({
+        fs,
+        dir: repoDir(repoId),
+        trees: [git.WORKDIR()],
+        map: async (filepath, [entry]) => {
+            if (filepath === '.') return;
+            if (!entry || filepath === '.git' || !wanted(filepath)) return null;
+            if (await entry.type() === 'blob') oids.set(filepath, await entry.oid());
+        },
+    });
+    return oids;
+}
+
+async function localFile(relPath: string): Promise<File | null> {
+    try {
+        const handle = await getLocalHandle(relPath, { type: 'file' }) as FileSystemFileHandle;
+        return await handle.getFile();
+    } catch (e) {
+        return null;
+    }
+}
+
+async function isEmptyDir(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    for await (const _ of (handle as any).keys()) return false;
+    return true;
+}
+
+async function readLocalFile(relPath: string): Promise<Uint8Array | null> {
+    const file = await localFile(relPath);
+    return file && new Uint8Array(await file.arrayBuffer());
+}
+
+// Returns the written file, whose stat goes into the sync manifest
+async function writeLocalFile(relPath: string, data: Uint8Array): Promise<File> {
+    const handle = await getLocalHandle(relPath, { create: true, type: 'file' }) as FileSystemFileHandle;
+    const writable = await handle.createWritable();
+    await writable.write(data as any);
+    await writable.close();
+    return handle.getFile();
+}
+
+async function deleteLocalFile(relPath: string) {
+    const parts = relPath.split('/');
+    const name = parts.pop()!;
+    const parent = await getLocalHandle(parts.join('/'), { type: 'dir' }) as FileSystemDirectoryHandle;
+    await parent.removeEntry(name);
+}
+
+// Undo journal: File System Access writes bypass the OS trash, so before a sync writes or
+// deletes a local file its previous contents are saved here, grouped by sync id
+interface SyncJournal {
+    id: string;
+    repoId: string;
+    root: FileSystemDirectoryHandle;
+    createdAt: number;
+    paths: string[];
+}
+
+interface SyncJournalEntry {
+    // Local contents before the sync, null if the file didn't exist
+    previous: Uint8Array | null;
+    previousBaseline: string | null;
+    // Hash of what the sync left behind, null if it deleted the file
+    resultHash: string | null;
+}
+
+const syncJournals = new IdbStore<SyncJournal>('sync-journals');
+const syncJournalEntries = new IdbStore<SyncJournalEntry>('sync-journal-entries');
+const MAX_JOURNALS_PER_REPO = 5;
+
+const journalEntryKey = (syncId: string, path: string) => `${syncId}:${path}`;
+
+// Newest first
+async function listJournals(repoId: string): Promise<SyncJournal[]> {
+    const journals = await Promise.all((await syncJournals.keys()).map(key => syncJournals.get(key)));
+    return journals
+        .filter((j): j is SyncJournal => !!j && j.repoId === repoId)
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function deleteJournal(journal: SyncJournal) {
+    for (const path of journal.paths) await syncJournalEntries.delete(journalEntryKey(journal.id, path));
+    await syncJournals.delete(journal.id);
+}
+
+// Rules are stored per repo together with the folder they were written for
+interface LocalMapping {
+    root: FileSystemDirectoryHandle;
+    rules: SyncRules;
+}
+
+const localMappings = new IdbStore<LocalMapping>('local-mappings');
+
+const DEFAULT_SYNC_RULES: SyncRules = {
+    include: [],
+    exclude: [],
+    protectedPaths: ['.env*', 'node_modules'],
+    useGitignore: true,
+};
+
+async function loadSyncRules(repoId: string): Promise<SyncRules> {
+    if (!localRoot) throw workerError('NO_LOCAL_ROOT', "Local root not set in worker");
+    const saved = await localMappings.get(repoId);
+    if (saved && await saved.root.isSameEntry(localRoot)) return saved.rules;
+    return DEFAULT_SYNC_RULES;
+}
+
+interface SyncFilter {
+    rules: SyncRules;
+    // Whether syncing may look at, write or import relPath at all
+    allows(relPath: string, isDir: boolean): Promise<boolean>;
+    isProtected(relPath: string): boolean;
+}
+
+async function createSyncFilter(repoId: string): Promise<SyncFilter> {
+    const rules = await loadSyncRules(repoId);
+    const repoPath = repoDir(repoId);
+    const { isProtected, passes } = compileSyncRules(rules, compileUserGlobs);
+    return {
+        rules,
+        isProtected,
+        async allows(relPath, isDir) {
+            if (!passes(relPath, isDir)) return false;
+            if (!rules.useGitignore) return true;
+            // Tracked paths are never ignored, however .gitignore reads
+            try {
+                await pfs.stat(`${repoPath}/${relPath}`);
+                return true;
+            } catch (e) {
+                return !await git.isIgnored({ fs, dir: repoPath, filepath: relPath });
             }
-        } catch (e) {
-            // Not in virtual, delete local
-            console.log(`[Worker] Cleaning up extra local item: ${childRelPath}`);
-            await lHandle.removeEntry(name, { recursive: true });
-        }
+        },
+    };
+}
+
+// Actions without a result are answered with just the id
+function respond<A extends WorkerAction>(id: string, action: A, ...[result]: ActionResult<A> extends void ? [] : [ActionResult<A>]) {
+    self.postMessage({ id, type: 'success', payload: result } satisfies WorkerReply);
+}
+
+const WORKER_ERROR_CODES = new Set<string>(['UNKNOWN_ACTION', 'CANCELLED', 'NOT_FOUND', 'READ_ONLY', 'NO_ACCESS', 'NO_LOCAL_ROOT', 'INVALID_REQUEST', 'AUTH', 'NETWORK', 'SERVER', 'GIT', 'FS', 'INTERNAL'] satisfies WorkerErrorCode[]);
+
+// Errors thrown by this file carry a WorkerErrorCode; those of isomorphic-git and the file systems get one here
+function toErrorInfo(err: any): WorkerErrorInfo {
+    const message = err?.message || String(err);
+    if (WORKER_ERROR_CODES.has(err?.code)) return { code: err.code, message, detail: err.detail };
+    if (err?.name === 'AbortError') return { code: 'CANCELLED', message };
+    // The answer isomorphic-git gave up on, once any retries are spent
+    if (err?.code === 'HttpError') {
+        const status = err.data?.statusCode;
+        if (status === 401 || status === 403) return { code: 'AUTH', message, detail: err.code };
+        if (status >= 500 || status === 429) return { code: 'SERVER', message, detail: err.code };
     }
+    // isomorphic-git's error codes are the names of its error classes
+    if (typeof err?.code === 'string' && err.code in git.Errors) return { code: 'GIT', message, detail: err.code };
+    if (err?.code === 'EROFS') return { code: 'READ_ONLY', message, detail: err.code };
+    if (typeof err?.code === 'string' && err.code.startsWith('E')) return { code: 'FS', message, detail: err.code };
+    return { code: 'INTERNAL', message };
 }
 
-// Signal ready
-self.postMessage({ type: 'ready' });
+// Signal ready, with the protocol version GitService checks before sending anything
+self.postMessage({ type: 'ready', version: PROTOCOL_VERSION });
+
+self.onmessage = async (e: MessageEvent<ToWorker>) => {
+    const message = e.data;
 
-self.onmessage = async (e) => {
-    const { id, type, payload } = e.data;
+    if (message.type === 'cancel') {
+        console.log(`[Worker] Cancelling request ${message.payload.targetId}`);
+        activeOperations.get(message.payload.targetId)?.abort();
+        return;
+    }
+    // Answers to the worker's own auth requests, picked up by the listeners that sent them
+    if (message.type === 'AUTH_RESULT') return;
 
+    const { id, type, payload } = message;
     try {
         console.log(`Action: ${type} started`);
         switch (type) {
             case 'init':
-                try { await pfs.mkdir(dir); } catch (e) { }
-                self.postMessage({ id, type: 'success' });
+                try { await pfs.mkdir(REPOS_ROOT); } catch (e) { }
+                respond(id, type);
                 break;
 
-            case 'clone':
-                console.log(`[Worker] Cloning ${payload.url} [${payload.ref}] (Proxy: ${payload.useProxy})`);
-                await clearDirContents(dir);
-                // 1. First clone without checkout to avoid conflict with potential leftover ghosts
-                await git.clone({
-                    fs, http: http as any, dir, url: payload.url, ref: payload.ref,
-                    singleBranch: true,
-                    depth: 1,
-                    noCheckout: true,
-                    corsProxy: payload.useProxy ? CORS_PROXY : undefined,
-                    onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg })
+            case 'listRepos':
+                respond(id, type, await loadWorkspace());
+                break;
+
+            case 'addRepo': {
+                const repo: RepoMeta = {
+                    id: Math.random().toString(36).slice(2, 10),
+                    name: repoNameFromUrl(payload.url),
+                    url: payload.url,
+                    ref: payload.ref,
+                    useProxy: payload.useProxy,
+                    lastFetched: null,
+                };
+                try { await pfs.mkdir(REPOS_ROOT); } catch (e) { }
+                if (payload.storage === 'disk') {
+                    if (!localRoot) throw workerError('NO_LOCAL_ROOT', "Map a local folder to clone into first");
+                    if (await findDiskRepo(localRoot)) throw workerError('INVALID_REQUEST', `${localRoot.name} already holds another repository`);
+                    repo.storage = 'disk';
+                    await diskRepos.put(repo.id, localRoot);
+                } else {
+                    try { await pfs.mkdir(repoDir(repo.id)); } catch (e) { }
+                }
+                await updateWorkspace(repos => { repos.push(repo); });
+                console.log(`[Worker] Added repository ${repo.name} (${repo.id})`);
+                respond(id, type, repo);
+                break;
+            }
+
+            case 'openLocalRepo': {
+                const handle: FileSystemDirectoryHandle = payload.handle;
+                try { await handle.getDirectoryHandle('.git'); } catch (e) {
+                    throw workerError('INVALID_REQUEST', `${handle.name} is not a git repository (no .git folder)`);
+                }
+                // Opening a known folder again just reconnects it
+                const known = await findDiskRepo(handle);
+                if (known) {
+                    await getRepo(known.id);
+                    respond(id, type, known);
+                    break;
+                }
+
+                const repo: RepoMeta = {
+                    id: Math.random().toString(36).slice(2, 10),
+                    name: handle.name,
+                    url: '',
+                    ref: '',
+                    useProxy: false,
+                    // Nothing to fetch: the checkout is complete as it is
+                    lastFetched: Date.now(),
+                    storage: 'disk',
+                    readOnly: true,
+                };
+                await diskRepos.put(repo.id, handle);
+                try {
+                    await mountDiskRepo(repo);
+                    const dir = repoDir(repo.id);
+                    repo.url = await git.getConfig({ fs, dir, path: 'remote.origin.url' }) || '';
+                    repo.ref = await git.currentBranch({ fs, dir }) || (await git.resolveRef({ fs, dir, ref: 'HEAD' })).slice(0, 7);
+                } catch (e) {
+                    fs.unmount(repoDir(repo.id));
+                    await diskRepos.delete(repo.id);
+                    throw e;
+                }
+                await updateWorkspace(repos => { repos.push(repo); });
+                console.log(`[Worker] Opened ${handle.name} read-only (${repo.id})`);
+                respond(id, type, repo);
+                break;
+            }
+
+            case 'removeRepo': {
+                const repo = await findRepo(payload.repoId);
+                if (repo.storage === 'disk') {
+                    // The folder is the user's; only forget about it
+                    fs.unmount(repoDir(repo.id));
+                    await diskRepos.delete(repo.id);
+                } else {
+                    // With whatever an interrupted re-clone left next to it
+                    for (const suffix of ['', STAGING_SUFFIX, PREVIOUS_SUFFIX]) await recursiveDelete(`${repoDir(repo.id)}${suffix}`);
+                }
+                invalidatePathIndex(payload.repoId);
+                await syncBaselines.delete(payload.repoId);
+                await localMappings.delete(payload.repoId);
+                for (const journal of await listJournals(payload.repoId)) await deleteJournal(journal);
+                await updateWorkspace(repos => {
+                    const index = repos.findIndex(r => r.id === payload.repoId);
+                    if (index !== -1) repos.splice(index, 1);
                 });
+                console.log(`[Worker] Removed repository ${payload.repoId}`);
+                respond(id, type);
+                break;
+            }
+
+            case 'clone': {
+                const repoPath = repoDir(payload.repoId);
+                const repo = await getRepo(payload.repoId);
+                requireWritable(repo);
+                const signal = registerOperation(id);
+                const progress = createProgress(id, 'Connecting');
+                // In the browser a re-clone is built next to the previous clone, which is kept
+                // until the new one is complete, so a failed or cancelled re-clone loses nothing
+                const cloneDir = repo.storage === 'disk' ? repoPath : `${repoPath}${STAGING_SUFFIX}`;
+                console.log(`[Worker] Cloning ${payload.url} [${payload.ref}] into ${cloneDir} (Proxy: ${payload.useProxy})`);
+                if (repo.storage === 'disk') {
+                    // Never clear a real folder; an existing clone there is updated with pull
+                    if ((await pfs.readdir(repoPath)).length) throw workerError('INVALID_REQUEST', 'Cloning to disk needs an empty folder. Use Pull to update an existing clone.');
+                } else {
+                    // Left over from a re-clone that was interrupted by closing the tab
+                    await recursiveDelete(cloneDir);
+                    await pfs.mkdir(cloneDir);
+                }
+                try {
+                    // 1. First clone without checkout to avoid conflict with potential leftover ghosts
+                    await git.clone({
+                        fs, http: forOperation(http, signal, progress) as any, ...authCallbacks, dir: cloneDir, url: payload.url, ref: payload.ref,
+                        singleBranch: true,
+                        depth: 1,
+                        noCheckout: true,
+                        corsProxy: await corsProxyFor(payload.useProxy),
+                        onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg }),
+                        onProgress: abortOnProgress(signal, progress)
+                    });
+
+                    // 2. Perform a forced checkout to ensure the working directory matches the commit exactly.
+                    // Not cancellable: once the objects are in, finishing is quicker than cleaning up.
+                    console.log(`[Worker] Performing forced checkout...`);
+                    await git.checkout({
+                        fs, dir: cloneDir, ref: payload.ref,
+                        force: true,
+                        onProgress: ({ phase, loaded, total }) => progress.update(phase, loaded, total || null)
+                    });
+                } catch (err) {
+                    // The disk folder was empty before, so a half-written clone is all there is to remove
+                    if (repo.storage === 'disk') {
+                        await clearDirContents(repoPath);
+                    } else {
+                        await recursiveDelete(cloneDir);
+                        if (repo.lastFetched) progress.log('The clone did not finish; the previous clone was kept as it was.');
+                    }
+                    throw err;
+                }
+                if (cloneDir !== repoPath) await replaceDir(repoPath, cloneDir);
 
-                // 2. Perform a forced checkout to ensure the working directory matches the commit exactly
-                console.log(`[Worker] Performing forced checkout...`);
-                await git.checkout({
-                    fs, dir, ref: payload.ref,
-                    force: true
+                const cloned = await updateWorkspace(repos => {
+                    const repo = repos.find(r => r.id === payload.repoId)!;
+                    Object.assign(repo, {
+                        url: payload.url, ref: payload.ref, useProxy: payload.useProxy,
+                        name: repoNameFromUrl(payload.url), lastFetched: Date.now()
+                    });
+                    return repo;
                 });
 
+                invalidatePathIndex(payload.repoId, true);
                 console.log(`[Worker] Clone finished`);
-                self.postMessage({ id, type: 'success' });
+                respond(id, type, cloned);
                 break;
+            }
 
-            case 'pull':
-                console.log(`[Worker] Pulling ${payload.url} [${payload.ref}] (Proxy: ${payload.useProxy})`);
+            case 'pull': {
+                const repoPath = repoDir(payload.repoId);
+                requireWritable(await getRepo(payload.repoId));
+                const signal = registerOperation(id);
+                const progress = createProgress(id, 'Connecting');
+                console.log(`[Worker] Pulling ${payload.url} [${payload.ref}] into ${repoPath} (Proxy: ${payload.useProxy})`);
+                const origHead = await git.resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+                // A cancelled pull stops before the merge touches the working tree (see abortOnProgress)
                 await git.pull({
-                    fs, http: http as any, dir, url: payload.url, ref: payload.ref,
+                    fs, http: forOperation(http, signal, progress) as any, ...authCallbacks, dir: repoPath, url: payload.url, ref: payload.ref,
                     singleBranch: true,
-                    corsProxy: payload.useProxy ? CORS_PROXY : undefined,
-                    onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg })
+                    corsProxy: await corsProxyFor(payload.useProxy),
+                    onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg }),
+                    onProgress: abortOnProgress(signal, progress)
                 });
+                // Remember where HEAD was, like git does, so the pulled changes can be reviewed as ORIG_HEAD..HEAD.
+                // A pull that brought nothing leaves the range of the last one that did.
+                if (await git.resolveRef({ fs, dir: repoPath, ref: 'HEAD' }) !== origHead) {
+                    await git.writeRef({ fs, dir: repoPath, ref: 'ORIG_HEAD', value: origHead, force: true });
+                }
+
+                const pulled = await updateWorkspace(repos => {
+                    const repo = repos.find(r => r.id === payload.repoId)!;
+                    Object.assign(repo, { useProxy: payload.useProxy, lastFetched: Date.now() });
+                    return repo;
+                });
+
+                invalidatePathIndex(payload.repoId, true);
                 console.log(`[Worker] Pull finished`);
-                self.postMessage({ id, type: 'success' });
+                respond(id, type, pulled);
+                break;
+            }
+
+            case 'log': {
+                const repo = await getRepo(payload.repoId);
+                const repoPath = repoDir(repo.id);
+                const offset: number = payload.offset || 0;
+                const limit: number = payload.limit || 30;
+                // Ask for one extra commit so we know whether another page exists
+                const wanted = offset + limit + 1;
+
+                const readLog = () => git.log({ fs, dir: repoPath, ref: 'HEAD', depth: wanted });
+                const atShallowBoundary = async (entries: Awaited<ReturnType<typeof readLog>>) => {
+                    const last = entries[entries.length - 1];
+                    return entries.length < wanted && !!last && last.commit.parent.length > 0
+                        && (await readShallowOids(repoPath)).has(last.oid);
+                };
+
+                let entries = await readLog();
+                let deepened = false;
+                // A read-only checkout never fetches, so its history ends where the clone does
+                if (!repo.readOnly && await atShallowBoundary(entries)) {
+                    const branch = await git.currentBranch({ fs, dir: repoPath }) || repo.ref;
+                    console.log(`[Worker] History reached the shallow boundary, deepening ${branch} by ${LOG_DEEPEN_BY} commits`);
+                    const signal = registerOperation(id);
+                    const progress = createProgress(id, 'Fetching history');
+                    await git.fetch({
+                        fs, http: forOperation(http, signal, progress) as any, ...authCallbacks, dir: repoPath, url: repo.url, ref: branch,
+                        singleBranch: true,
+                        depth: Math.max(LOG_DEEPEN_BY, limit + 1),
+                        relative: true,
+                        corsProxy: await corsProxyFor(repo.useProxy),
+                        onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg }),
+                        onProgress: abortOnProgress(signal, progress)
+                    });
+                    entries = await readLog();
+                    deepened = true;
+                }
+
+                const shallow = await readShallowOids(repoPath);
+                const commits: CommitEntry[] = [];
+                for (const entry of entries.slice(offset, offset + limit)) {
+                    const [parent] = entry.commit.parent;
+                    let files: FileChange[] | null = null;
+                    if (!parent) files = await diffTrees(fs, repoPath, null, entry.oid);
+                    else if (!shallow.has(entry.oid)) files = await diffTrees(fs, repoPath, parent, entry.oid);
+                    commits.push({
+                        oid: entry.oid,
+                        message: entry.commit.message,
+                        author: {
+                            name: entry.commit.author.name,
+                            email: entry.commit.author.email,
+                            timestamp: entry.commit.author.timestamp,
+                        },
+                        parents: entry.commit.parent,
+                        files,
+                    });
+                }
+
+                const hasMore = entries.length > offset + limit || (!repo.readOnly && await atShallowBoundary(entries));
+                respond(id, type, { commits, hasMore, deepened });
+                break;
+            }
+
+            case 'listServerRefs': {
+                console.log(`[Worker] Listing remote refs of ${payload.url}`);
+                const serverRefs = await git.listServerRefs({
+                    http: http as any, ...authCallbacks, url: payload.url, symrefs: true,
+                    corsProxy: await corsProxyFor(payload.useProxy),
+                });
+                const result: ServerRefs = { head: null, branches: [], tags: [] };
+                for (const { ref, target } of serverRefs) {
+                    if (ref === 'HEAD') result.head = target?.replace(/^refs\/heads\//, '') ?? null;
+                    else if (ref.startsWith('refs/heads/')) result.branches.push(ref.slice('refs/heads/'.length));
+                    else if (ref.startsWith('refs/tags/') && !ref.endsWith('^{}')) result.tags.push(ref.slice('refs/tags/'.length));
+                }
+                respond(id, type, result);
+                break;
+            }
+
+            case 'listRefs': {
+                const repoPath = repoDir(payload.repoId);
+                await getRepo(payload.repoId);
+                const result: LocalRefs = {
+                    current: await git.currentBranch({ fs, dir: repoPath }) || null,
+                    branches: await git.listBranches({ fs, dir: repoPath }),
+                    remoteBranches: (await git.listBranches({ fs, dir: repoPath, remote: 'origin' })).filter(b => b !== 'HEAD'),
+                    tags: await git.listTags({ fs, dir: repoPath }),
+                };
+                respond(id, type, result);
+                break;
+            }
+
+            case 'checkout': {
+                const repo = await getRepo(payload.repoId);
+                requireWritable(repo);
+                const repoPath = repoDir(repo.id);
+                const ref: string = payload.ref;
+                const [branches, remoteBranches, tags] = await Promise.all([
+                    git.listBranches({ fs, dir: repoPath }),
+                    git.listBranches({ fs, dir: repoPath, remote: 'origin' }),
+                    git.listTags({ fs, dir: repoPath }),
+                ]);
+
+                // Single-branch shallow clones only know one ref, so fetch the target first when it's missing
+                if (!branches.includes(ref) && !remoteBranches.includes(ref) && !tags.includes(ref)) {
+                    console.log(`[Worker] ${ref} is not available locally, fetching it first`);
+                    // Only the fetch can be cancelled; the checkout below is quick and must not stop halfway
+                    const signal = registerOperation(id);
+                    const progress = createProgress(id, 'Connecting');
+                    await git.fetch({
+                        fs, http: forOperation(http, signal, progress) as any, ...authCallbacks, dir: repoPath, url: repo.url, ref,
+                        singleBranch: true,
+                        depth: 1,
+                        tags: true,
+                        corsProxy: await corsProxyFor(repo.useProxy),
+                        onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg }),
+                        onProgress: abortOnProgress(signal, progress)
+                    });
+                }
+
+                console.log(`[Worker] Checking out ${ref}`);
+                // With remote: 'origin', checking out a remote-only branch creates a local tracking branch
+                await git.checkout({ fs, dir: repoPath, ref, remote: 'origin' });
+                invalidatePathIndex(repo.id, true);
+
+                const switched = await updateWorkspace(repos => {
+                    const meta = repos.find(r => r.id === repo.id)!;
+                    meta.ref = ref;
+                    return meta;
+                });
+                respond(id, type, switched);
+                break;
+            }
+
+            case 'createBranch': {
+                const repoPath = repoDir(payload.repoId);
+                requireWritable(await getRepo(payload.repoId));
+                console.log(`[Worker] Creating branch ${payload.name}${payload.checkout ? ' and switching to it' : ''}`);
+                await git.branch({ fs, dir: repoPath, ref: payload.name, object: payload.startPoint, checkout: payload.checkout });
+                const created = await updateWorkspace(repos => {
+                    const meta = repos.find(r => r.id === payload.repoId)!;
+                    if (payload.checkout) meta.ref = payload.name;
+                    return meta;
+                });
+                respond(id, type, created);
+                break;
+            }
+
+            case 'status': {
+                await getRepo(payload.repoId);
+                respond(id, type, await readStatus(repoDir(payload.repoId)));
+                break;
+            }
+
+            case 'stage': {
+                const repoPath = repoDir(payload.repoId);
+                requireWritable(await getRepo(payload.repoId));
+                for (const filepath of payload.paths as string[]) {
+                    try {
+                        await pfs.stat(`${repoPath}/${filepath}`);
+                        await git.add({ fs, dir: repoPath, filepath });
+                    } catch (e: any) {
+                        if (e.code !== 'ENOENT') throw e;
+                        // Deleted in the working tree: stage the removal
+                        await git.remove({ fs, dir: repoPath, filepath });
+                    }
+                }
+                respond(id, type, await readStatus(repoPath));
+                break;
+            }
+
+            case 'unstage': {
+                const repoPath = repoDir(payload.repoId);
+                requireWritable(await getRepo(payload.repoId));
+                for (const filepath of payload.paths as string[]) {
+                    await git.resetIndex({ fs, dir: repoPath, filepath });
+                }
+                respond(id, type, await readStatus(repoPath));
+                break;
+            }
+
+            case 'getAuthor': {
+                const repoPath = repoDir(payload.repoId);
+                await getRepo(payload.repoId);
+                const author: GitAuthor = {
+                    name: await git.getConfig({ fs, dir: repoPath, path: 'user.name' }) || '',
+                    email: await git.getConfig({ fs, dir: repoPath, path: 'user.email' }) || '',
+                };
+                respond(id, type, author);
+                break;
+            }
+
+            case 'commit': {
+                const repoPath = repoDir(payload.repoId);
+                requireWritable(await getRepo(payload.repoId));
+                const author: GitAuthor = payload.author;
+                // Keep the identity in the repo config so the next commit is prefilled
+                await git.setConfig({ fs, dir: repoPath, path: 'user.name', value: author.name });
+                await git.setConfig({ fs, dir: repoPath, path: 'user.email', value: author.email });
+                const oid = await git.commit({ fs, dir: repoPath, message: payload.message, author });
+                console.log(`[Worker] Committed ${oid.slice(0, 7)} as ${author.name} <${author.email}>`);
+                respond(id, type, oid);
+                break;
+            }
+
+            case 'push': {
+                const repo = await getRepo(payload.repoId);
+                requireWritable(repo);
+                const repoPath = repoDir(repo.id);
+                const branch = await git.currentBranch({ fs, dir: repoPath });
+                if (!branch) throw workerError('INVALID_REQUEST', 'Cannot push from a detached HEAD; create a branch first');
+                console.log(`[Worker] Pushing ${branch} to ${repo.url} (Proxy: ${repo.useProxy})`);
+                const signal = registerOperation(id);
+                const progress = createProgress(id, 'Connecting');
+                // A push cancelled while its pack is uploading may still have reached the server
+                const result = await git.push({
+                    fs, http: forOperation(http, signal, progress) as any, ...authCallbacks, dir: repoPath, url: repo.url, remote: 'origin', ref: branch,
+                    corsProxy: await corsProxyFor(repo.useProxy),
+                    onMessage: (msg: string) => self.postMessage({ id, type: 'progress', payload: msg }),
+                    onProgress: abortOnProgress(signal, progress)
+                });
+                if (!result.ok) {
+                    const rejected = Object.entries(result.refs).filter(([, r]) => !r.ok).map(([ref, r]) => `${ref}: ${r.error}`);
+                    throw workerError('GIT', `Push rejected (${rejected.join(', ') || result.error})`, 'PushRejectedError');
+                }
+                console.log(`[Worker] Push finished`);
+                respond(id, type);
                 break;
+            }
+
+            case 'diff': {
+                const repoPath = repoDir(payload.repoId);
+                await getRepo(payload.repoId);
+                const from = await resolveCommitish(fs, repoPath, payload.from);
+                const to = await resolveCommitish(fs, repoPath, payload.to);
+                console.log(`[Worker] Diffing ${from ?? '(empty)'}..${to}`);
+                const files = await diffFiles(fs, repoPath, from, to!);
+                respond(id, type, files);
+                break;
+            }
 
-            case 'getFileTree':
+            case 'getFileTree': {
+                await getRepo(payload.repoId);
                 console.log(`Fetching file tree`);
-                const buildTree = async (currentPath: string): Promise<any[]> => {
-                    const files = await pfs.readdir(currentPath);
+                const root = repoDir(payload.repoId);
+                const buildTree = async (relPath: string): Promise<any[]> => {
+                    const files = await pfs.readdir(toRepoPath(payload.repoId, relPath));
                     const nodes = [];
                     for (const file of files) {
                         if (file === '.git') continue;
-                        const fullPath = `${currentPath}/${file}`;
-                        const stat = await pfs.stat(fullPath);
-                        const node: any = { name: file, path: fullPath, type: stat.isDirectory() ? 'dir' : 'file' };
-                        if (node.type === 'dir') node.children = await buildTree(fullPath);
+                        const childPath = relPath ? `${relPath}/${file}` : file;
+                        const stat = await pfs.stat(toRepoPath(payload.repoId, childPath));
+                        const node: any = { name: file, path: childPath, type: stat.isDirectory() ? 'dir' : 'file' };
+                        if (node.type === 'dir') node.children = await buildTree(childPath);
                         nodes.push(node);
                     }
                     return nodes;
                 };
-                const tree = await buildTree(dir);
+                try { await pfs.stat(root); } catch (e) {
+                    respond(id, type, []);
+                    break;
+                }
+                const tree = await buildTree('');
                 console.log(`Tree built with ${tree.length} top-level items`);
-                self.postMessage({ id, type: 'success', payload: tree });
+                respond(id, type, tree);
                 break;
+            }
 
-            case 'readFile':
+            case 'readFile': {
+                await getRepo(payload.repoId);
                 console.log(`Reading file: ${payload.path}`);
-                const content = await pfs.readFile(payload.path, 'utf8');
-                self.postMessage({ id, type: 'success', payload: content });
+                const target = toRepoPath(payload.repoId, payload.path);
+                const { size } = await pfs.stat(target);
+                const data = size > MAX_READ_BYTES ? null : await pfs.readFile(target) as Uint8Array;
+                const file = inspectFile(payload.path, size, data, payload.encoding);
+                respond(id, type, file);
+                break;
+            }
+
+            case 'writeFile': {
+                requireWritable(await getRepo(payload.repoId));
+                const target = toRepoPath(payload.repoId, payload.path);
+                if (payload.path.split('/').includes('.git')) throw workerError('INVALID_REQUEST', 'Refusing to write inside .git');
+                console.log(`Writing file: ${payload.path}`);
+                await ensureParentDirs(target);
+                await pfs.writeFile(target, payload.content, 'utf8');
+                invalidatePathIndex(payload.repoId);
+                respond(id, type);
+                break;
+            }
+
+            case 'findFiles': {
+                await getRepo(payload.repoId);
+                const paths = await getPathIndex(payload.repoId);
+                const results: FuzzyMatch[] = fuzzyFilter(payload.query, paths, payload.limit || 50);
+                respond(id, type, results);
+                break;
+            }
+
+            case 'search': {
+                await getRepo(payload.repoId);
+                const options: SearchOptions = payload.options;
+                const signal = registerOperation(id);
+                console.log(`[Worker] Searching for ${options.regex ? '/' + options.query + '/' : JSON.stringify(options.query)}`);
+                const summary = await searchRepo(repoDir(payload.repoId), options, signal, matches => {
+                    self.postMessage({ id, type: 'progress', payload: { type: 'searchMatches', matches } });
+                });
+                respond(id, type, summary);
+                break;
+            }
+
+            case 'getSyncRules':
+                await getRepo(payload.repoId);
+                respond(id, type, await loadSyncRules(payload.repoId));
                 break;
 
+            case 'setSyncRules': {
+                await getRepo(payload.repoId);
+                if (!localRoot) throw workerError('NO_LOCAL_ROOT', "Local root not set in worker");
+                const rules: SyncRules = payload.rules;
+                // Checked before saving, or one bad glob would fail every later sync until the rules are edited
+                compileSyncRules(rules, compileUserGlobs);
+                await localMappings.put(payload.repoId, { root: localRoot, rules });
+                console.log(`[Worker] Saved sync rules for ${payload.repoId}`);
+                respond(id, type, rules);
+                break;
+            }
+
             case 'setLocalRoot':
                 console.log(`Setting local root handle`);
                 localRoot = payload.handle;
-                self.postMessage({ id, type: 'success' });
+                respond(id, type);
                 break;
 
-            case 'syncToLocal':
-                console.log(`Syncing ${payload.path} to local`);
-                const totalFiles = await countFiles(payload.path);
-                let currentFiles = 0;
-                let skippedFiles = 0;
-                let updatedFiles = 0;
+            case 'planSync': {
+                // Dry run: works out what syncToLocal would write and delete without touching the local folder
+                const repoPath = repoDir(payload.repoId);
+                requireBrowserStorage(await getRepo(payload.repoId));
+                const signal = registerOperation(id);
+                const progress = createProgress(id, 'Comparing files');
+                const paths: string[] = payload.paths;
+                console.log(`Planning sync of ${paths.map(p => p || '/').join(', ')} to local`);
+                const baseline = await loadBaseline(payload.repoId);
+                const filter = await createSyncFilter(payload.repoId);
+                const plan: SyncPlan = { repoId: payload.repoId, entries: [], unchanged: 0, skippedHashes: 0 };
                 const CONCURRENCY = 10; // Process 10 files in parallel
 
                 // Collect all files first
                 const collectFiles = async (vPath: string): Promise<{ vPath: string; relPath: string }[]> => {
-                    const relPath = vPath.startsWith(dir) ? vPath.slice(dir.length).replace(/^\/+/, '') : vPath.replace(/^\/+/, '');
+                    const relPath = vPath.slice(repoPath.length).replace(/^\/+/, '');
                     const stat = await pfs.stat(vPath);
+                    if (relPath && !await filter.allows(relPath, stat.isDirectory())) return [];
                     if (stat.isDirectory()) {
-                        // Ensure directory exists locally
-                        if (relPath) await getLocalHandle(relPath, { create: true, type: 'dir' });
                         const files = await pfs.readdir(vPath);
                         const results: { vPath: string; relPath: string }[] = [];
                         for (const file of files) {
@@ -402,59 +1666,351 @@ self.onmessage = async (e) => {
                     }
                 };
 
-                // Sync a single file
-                const syncFile = async (vPath: string, relPath: string) => {
-                    // Check consistency BEFORE creating writable
+                const planFile = async (vPath: string, relPath: string) => {
+                    // Stat taken before comparing, so an edit in between makes the manifest stale rather than wrong
+                    const lFile = await localFile(relPath);
+                    if (unchangedSinceSync(baseline, relPath, oids.get(relPath), lFile)) {
+                        plan.unchanged++;
+                        plan.skippedHashes++;
+                        return;
+                    }
                     const { consistent, vData } = await checkConsistency(vPath, relPath);
-
+                    if (!vData) return;
+                    progress.addBytes(vData.length);
                     if (consistent) {
-                        skippedFiles++;
+                        plan.unchanged++;
+                        recordSynced(baseline, relPath, await calculateHash(vData), oids.get(relPath), lFile);
+                        return;
+                    }
+                    const lData = await readLocalFile(relPath);
+                    plan.entries.push(planMirrorEntry(relPath, vData.length, lData && await calculateHash(lData), baseline.files[relPath]));
+                };
+
+                const allFiles = (await Promise.all(paths.map(p => collectFiles(toRepoPath(payload.repoId, p))))).flat();
+                const oids = await workdirOids(payload.repoId, paths);
+                console.log(`[Worker] Collected ${allFiles.length} files to compare`);
+                for (let i = 0; i < allFiles.length; i += CONCURRENCY) {
+                    throwIfAborted(signal);
+                    const batch = allFiles.slice(i, i + CONCURRENCY);
+                    await Promise.all(batch.map(f => planFile(f.vPath, f.relPath)));
+                    progress.update('Comparing files', Math.min(i + CONCURRENCY, allFiles.length), allFiles.length, batch[batch.length - 1].relPath);
+                }
+
+                // Mirror logic: local files that don't exist in virtual repo
+                if (paths.includes('')) {
+                    console.log(`[Worker] Planning mirror cleanup...`);
+                    await planCleanup(payload.repoId, baseline, filter, '', plan.entries);
+                }
+                // Files found to be in sync are recorded now so later edits to them are recognised
+                await syncBaselines.put(payload.repoId, baseline);
+
+                console.log(`[Worker] Sync plan: ${plan.entries.length} changes, ${plan.unchanged} unchanged (${plan.skippedHashes} not re-hashed)`);
+                respond(id, type, plan);
+                break;
+            }
+
+            case 'syncToLocal': {
+                // Applies the approved entries of a plan from planSync
+                requireBrowserStorage(await getRepo(payload.repoId));
+                const signal = registerOperation(id);
+                const progress = createProgress(id, 'Writing files');
+                const entries: SyncPlanEntry[] = payload.entries;
+                console.log(`Syncing ${entries.length} approved changes of ${payload.repoId} to local`);
+                const baseline = await loadBaseline(payload.repoId);
+                const filter = await createSyncFilter(payload.repoId);
+                const result: SyncResult = { written: 0, removed: 0, skipped: [] };
+                const journal: SyncJournal = {
+                    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+                    repoId: payload.repoId,
+                    root: localRoot!,
+                    createdAt: Date.now(),
+                    paths: [],
+                };
+                let currentFiles = 0;
+
+                // Unless the entry was approved as overwriting local changes, the local file must still be the one we last synced
+                const localStillSynced = async (entry: SyncPlanEntry, lData: Uint8Array | null) =>
+                    entry.localChanges || !lData || baseline.files[entry.path] === await calculateHash(lData);
+
+                // Must run before the local file is touched
+                const journalFile = async (path: string, previous: Uint8Array | null, resultHash: string | null) => {
+                    await syncJournalEntries.put(journalEntryKey(journal.id, path), { previous, previousBaseline: baseline.files[path] ?? null, resultHash });
+                    journal.paths.push(path);
+                };
+
+                try {
+                    for (const entry of entries) {
+                        // Stops between files, so whatever was already written stays in the journal
+                        throwIfAborted(signal);
+                        const vPath = toRepoPath(payload.repoId, entry.path);
+                        const lData = await readLocalFile(entry.path);
+                        if (filter.isProtected(entry.path)) {
+                            // Rules may have changed since planning
+                            result.skipped.push(entry.path);
+                        } else if (entry.action === 'delete') {
+                            let inVirtual = true;
+                            try { await pfs.stat(vPath); } catch (e) { inVirtual = false; }
+                            if (!lData) {
+                                // Already gone
+                            } else if (inVirtual || !await localStillSynced(entry, lData)) {
+                                result.skipped.push(entry.path);
+                            } else {
+                                await journalFile(entry.path, lData, null);
+                                await deleteLocalFile(entry.path);
+                                forgetSynced(baseline, entry.path);
+                                await pruneEmptyLocalDirs(payload.repoId, entry.path);
+                                result.removed++;
+                            }
+                        } else {
+                            let vData: Uint8Array | null = null;
+                            try { vData = await pfs.readFile(vPath) as Uint8Array; } catch (e) { }
+                            if (!vData || !await localStillSynced(entry, lData)) {
+                                result.skipped.push(entry.path);
+                            } else {
+                                const vHash = await calculateHash(vData);
+                                await journalFile(entry.path, lData, vHash);
+                                const lFile = await writeLocalFile(entry.path, vData);
+                                progress.addBytes(vData.length);
+                                const { oid } = await git.hashBlob({ object: vData });
+                                recordSynced(baseline, entry.path, vHash, oid, lFile);
+                                result.written++;
+                            }
+                        }
+
+                        currentFiles++;
+                        progress.update('Writing files', currentFiles, entries.length, entry.path);
+                    }
+                } finally {
+                    // Saved even when the sync fails halfway, so the part that ran can still be reverted
+                    await syncBaselines.put(payload.repoId, baseline);
+                    if (journal.paths.length) {
+                        await syncJournals.put(journal.id, journal);
+                        for (const old of (await listJournals(payload.repoId)).slice(MAX_JOURNALS_PER_REPO)) await deleteJournal(old);
+                    }
+                }
+
+                console.log(`[Worker] Sync finished: ${result.written} written, ${result.removed} removed, ${result.skipped.length} skipped`);
+                respond(id, type, result);
+                break;
+            }
+
+            case 'getLastSync': {
+                await getRepo(payload.repoId);
+                const [journal] = await listJournals(payload.repoId);
+                let summary: SyncJournalSummary | null = null;
+                if (journal && localRoot && await journal.root.isSameEntry(localRoot)) {
+                    summary = { id: journal.id, createdAt: journal.createdAt, files: journal.paths.length };
+                }
+                respond(id, type, summary);
+                break;
+            }
+
+            case 'revertLastSync': {
+                requireBrowserStorage(await getRepo(payload.repoId));
+                if (!localRoot) throw workerError('NO_LOCAL_ROOT', "Local root not set in worker");
+                const [journal] = await listJournals(payload.repoId);
+                if (!journal) throw workerError('NOT_FOUND', "No sync to revert");
+                if (!await journal.root.isSameEntry(localRoot)) {
+                    throw workerError('INVALID_REQUEST', `Last sync went to a different folder (${journal.root.name})`);
+                }
+                console.log(`Reverting sync ${journal.id} of ${payload.repoId}`);
+                const baseline = await loadBaseline(payload.repoId);
+                const result: RevertResult = { restored: 0, skipped: [] };
+                const paths = [...journal.paths].reverse();
+                const progress = createProgress(id, 'Restoring files');
+
+                for (let i = 0; i < paths.length; i++) {
+                    const path = paths[i];
+                    const entry = await syncJournalEntries.get(journalEntryKey(journal.id, path));
+                    const lData = await readLocalFile(path);
+                    const currentHash = lData ? await calculateHash(lData) : null;
+                    if (!entry || currentHash !== entry.resultHash) {
+                        // Edited again after the sync, the newer local work wins
+                        result.skipped.push(path);
                     } else {
-                        // Only create writable when we need to write
-                        const handle = await getLocalHandle(relPath, { create: true, type: 'file' }) as FileSystemFileHandle;
-                        const writable = await handle.createWritable();
-                        await writable.write(vData as any);
-                        await writable.close();
-                        updatedFiles++;
+                        if (entry.previous) {
+                            await writeLocalFile(path, entry.previous);
+                            progress.addBytes(entry.previous.length);
+                        } else {
+                            await deleteLocalFile(path);
+                            await pruneEmptyLocalDirs(payload.repoId, path);
+                        }
+                        // The restored file gets compared in full on the next sync
+                        forgetSynced(baseline, path);
+                        if (entry.previousBaseline) baseline.files[path] = entry.previousBaseline;
+                        result.restored++;
+                    }
+
+                    progress.update('Restoring files', i + 1, paths.length, path);
+                }
+
+                await syncBaselines.put(payload.repoId, baseline);
+                await deleteJournal(journal);
+                console.log(`[Worker] Revert finished: ${result.restored} restored, ${result.skipped.length} skipped`);
+                respond(id, type, result);
+                break;
+            }
+
+            case 'syncFromLocal': {
+                requireBrowserStorage(await getRepo(payload.repoId));
+                const scope: string = payload.path || '';
+                const inScope = (path: string) => !scope || path === scope || path.startsWith(`${scope}/`);
+                // Paths with unsaved editor changes are left alone and reported as conflicts
+                const skip = new Set(payload.skip);
+                console.log(`Importing ${payload.paths ? `${payload.paths.length} path(s)` : scope || '/'} of ${payload.repoId} from local`);
+                const baseline = await loadBaseline(payload.repoId);
+                const filter = await createSyncFilter(payload.repoId);
+                const result: ImportResult = { imported: [], unchanged: 0, conflicts: [], skippedHashes: 0 };
+                const oids = await workdirOids(payload.repoId, payload.paths ?? [scope]);
+
+                const importFile = async (relPath: string, lData: Uint8Array, lFile: File, type: FileChange['type']) => {
+                    const vPath = toRepoPath(payload.repoId, relPath);
+                    await ensureParentDirs(vPath);
+                    await pfs.writeFile(vPath, lData);
+                    const { oid } = await git.hashBlob({ object: lData });
+                    recordSynced(baseline, relPath, await calculateHash(lData), oid, lFile);
+                    result.imported.push({ path: relPath, type });
+                };
+
+                const importChanged = async (relPath: string, lFile: File) => {
+                    if (unchangedSinceSync(baseline, relPath, oids.get(relPath), lFile)) {
+                        result.unchanged++;
+                        result.skippedHashes++;
+                        return;
+                    }
+                    const { consistent, vData } = await checkConsistency(toRepoPath(payload.repoId, relPath), relPath);
+                    if (consistent && vData) {
+                        result.unchanged++;
+                        recordSynced(baseline, relPath, await calculateHash(vData), oids.get(relPath), lFile);
+                        return;
                     }
 
-                    currentFiles++;
-                    self.postMessage({
-                        id,
-                        type: 'progress',
-                        payload: { type: 'sync', current: currentFiles, total: totalFiles, path: relPath, skipped: skippedFiles, updated: updatedFiles }
+                    const lData = new Uint8Array(await lFile.arrayBuffer());
+                    const outcome = classifyImport(baseline.files[relPath], await calculateHash(lData), vData && await calculateHash(vData), {
+                        skipped: skip.has(relPath),
+                        force: payload.force,
                     });
+                    if (outcome === 'conflict') result.conflicts.push(relPath);
+                    else if (outcome !== 'unchanged') await importFile(relPath, lData, lFile, outcome);
+                };
+
+                // A file we synced earlier that was deleted locally, as long as the repo copy is still the synced one
+                const importDeletion = async (relPath: string) => {
+                    const synced = baseline.files[relPath];
+                    if (!synced) return;
+                    const vPath = toRepoPath(payload.repoId, relPath);
+                    let vData: Uint8Array;
+                    try { vData = await pfs.readFile(vPath) as Uint8Array; } catch (e) {
+                        forgetSynced(baseline, relPath);
+                        return;
+                    }
+                    const outcome = classifyLocalDeletion(synced, await calculateHash(vData), { skipped: skip.has(relPath), force: payload.force });
+                    if (outcome === 'deleted') {
+                        await pfs.unlink(vPath);
+                        forgetSynced(baseline, relPath);
+                        result.imported.push({ path: relPath, type: 'deleted' });
+                    } else {
+                        result.conflicts.push(relPath);
+                    }
                 };
 
-                // Process files in parallel batches
-                const allFiles = await collectFiles(payload.path);
-                console.log(`[Worker] Collected ${allFiles.length} files to sync`);
+                const visit = async (relPath: string) => {
+                    const dir = await getLocalHandle(relPath, { type: 'dir' }) as FileSystemDirectoryHandle;
+                    for await (const [name, handle] of (dir as any).entries()) {
+                        if (!relPath && name === '.git') continue;
+                        const childRelPath = relPath ? `${relPath}/${name}` : name;
+                        // Build output, dependencies and the like stay local unless the repo already tracks them
+                        if (!await filter.allows(childRelPath, handle.kind === 'directory')) continue;
+                        if (handle.kind === 'directory') await visit(childRelPath);
+                        else await importChanged(childRelPath, await (handle as FileSystemFileHandle).getFile());
+                    }
+                };
 
-                for (let i = 0; i < allFiles.length; i += CONCURRENCY) {
-                    const batch = allFiles.slice(i, i + CONCURRENCY);
-                    await Promise.all(batch.map(f => syncFile(f.vPath, f.relPath)));
+                if (payload.paths) {
+                    // Just these files, e.g. the conflicts the user chose to overwrite
+                    for (const relPath of payload.paths) {
+                        if (!await filter.allows(relPath, false)) continue;
+                        const lFile = await localFile(relPath);
+                        if (lFile) await importChanged(relPath, lFile);
+                        else await importDeletion(relPath);
+                    }
+                } else {
+                    await visit(scope);
+                    for (const relPath of Object.keys(baseline.files)) {
+                        if (!inScope(relPath) || !await filter.allows(relPath, false) || await localFile(relPath)) continue;
+                        await importDeletion(relPath);
+                    }
                 }
 
-                // Mirror logic: cleanup files that don't exist in virtual repo
-                if (payload.path === dir) {
-                    console.log(`[Worker] Starting mirror cleanup...`);
-                    await cleanupLocal();
+                await syncBaselines.put(payload.repoId, baseline);
+                if (result.imported.length) invalidatePathIndex(payload.repoId);
+                console.log(`[Worker] Import finished: ${result.imported.length} imported, ${result.unchanged} unchanged (${result.skippedHashes} not re-hashed), ${result.conflicts.length} conflicts`);
+                respond(id, type, result);
+                break;
+            }
+
+            case 'getProxySettings':
+                respond(id, type, await loadProxySettings());
+                break;
+
+            case 'setProxySettings': {
+                const settings: ProxySettings = {
+                    endpoints: payload.settings.endpoints.map(e => e.trim()).filter(Boolean),
+                    retries: payload.settings.retries
+                };
+                if (!Number.isInteger(settings.retries) || settings.retries < 0 || settings.retries > MAX_RETRIES) {
+                    throw workerError('INVALID_REQUEST', `Retries must be a whole number from 0 to ${MAX_RETRIES}`);
                 }
+                // Validated before saving so a typo can't break every later fetch
+                for (const endpoint of settings.endpoints) {
+                    try { normalizeProxy(endpoint, self.location.origin); } catch (e) {
+                        throw workerError('INVALID_REQUEST', `Not a valid proxy URL: ${endpoint}`);
+                    }
+                }
+                await proxySettings.put('default', settings);
+                applyProxySettings(settings);
+                console.log(`[Worker] CORS proxies: ${settings.endpoints.join(', ') || 'none'}, ${settings.retries} retries`);
+                respond(id, type, settings);
+                break;
+            }
 
-                console.log(`[Worker] Sync finished: ${updatedFiles} updated, ${skippedFiles} skipped`);
-                self.postMessage({ id, type: 'success' });
+            case 'checkProxies': {
+                await proxiesLoaded;
+                let pool = proxies;
+                if (payload.endpoints) {
+                    // A draft from the settings dialog; the proxies in use keep their state
+                    pool = new ProxyPool(self.location.origin);
+                    pool.setEndpoints(payload.endpoints.map(e => e.trim()).filter(Boolean));
+                }
+                respond(id, type, await pool.check());
                 break;
+            }
 
             case 'wipe':
                 console.log('Wiping IndexedDB...');
                 // @ts-ignore
                 await new FS('git-browser-fs').wipe();
+                pathIndexes.clear();
+                await syncBaselines.clear();
+                await localMappings.clear();
+                await syncJournals.clear();
+                await syncJournalEntries.clear();
+                // Disk-backed clones stay where they are
+                for (const repoId of await diskRepos.keys()) fs.unmount(repoDir(repoId));
+                await diskRepos.clear();
+                await proxySettings.clear();
+                applyProxySettings(DEFAULT_PROXY_SETTINGS);
                 console.log('IndexedDB wiped successfully');
-                self.postMessage({ id, type: 'success' });
+                respond(id, type);
                 break;
+
+            default:
+                throw workerError('UNKNOWN_ACTION', `Unknown worker action: ${(message as { type: string }).type}`);
         }
     } catch (err: any) {
         console.log(`Error in worker action ${type}: ${err.message}`);
-        self.postMessage({ id, type: 'error', payload: err.message });
+        self.postMessage({ id, type: 'error', payload: toErrorInfo(err) } satisfies WorkerReply);
+    } finally {
+        activeOperations.delete(id);
     }
 };
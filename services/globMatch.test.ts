@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { compileGlobs, matchesAny, matchesGlob, parseGlobList } from './globMatch';
+
+describe('matchesGlob', () => {
+    it('matches a file name at any depth when the glob has no slash', () => {
+        expect(matchesGlob('a.ts', '*.ts')).toBe(true);
+        expect(matchesGlob('src/deep/a.ts', '*.ts')).toBe(true);
+        expect(matchesGlob('src/a.tsx', '*.ts')).toBe(false);
+    });
+
+    it('anchors globs with a slash at the repo root', () => {
+        expect(matchesGlob('src/a.ts', 'src/*.ts')).toBe(true);
+        expect(matchesGlob('lib/src/a.ts', 'src/*.ts')).toBe(false);
+        expect(matchesGlob('src/a.ts', '/src/*.ts')).toBe(true);
+    });
+
+    it('keeps * and ? within one path segment', () => {
+        expect(matchesGlob('src/a/b.ts', 'src/*.ts')).toBe(false);
+        expect(matchesGlob('src/ab.ts', 'src/a?.ts')).toBe(true);
+        expect(matchesGlob('src/a/.ts', 'src/a?.ts')).toBe(false);
+    });
+
+    it('lets ** cross directories, including none', () => {
+        expect(matchesGlob('src/a.ts', 'src/**/*.ts')).toBe(true);
+        expect(matchesGlob('src/x/y/a.ts', 'src/**/*.ts')).toBe(true);
+        expect(matchesGlob('src/x/y/a.ts', 'src/**')).toBe(true);
+        expect(matchesGlob('lib/a.ts', 'src/**')).toBe(false);
+    });
+
+    it('matches everything below a matching directory', () => {
+        expect(matchesGlob('node_modules/pkg/index.js', 'node_modules')).toBe(true);
+        expect(matchesGlob('packages/app/node_modules/pkg/index.js', 'node_modules/')).toBe(true);
+        expect(matchesGlob('node_modules_backup/a.js', 'node_modules')).toBe(false);
+    });
+
+    it('supports character classes and their negation', () => {
+        expect(matchesGlob('file1.txt', 'file[0-9].txt')).toBe(true);
+        expect(matchesGlob('filea.txt', 'file[0-9].txt')).toBe(false);
+        expect(matchesGlob('filea.txt', 'file[!0-9].txt')).toBe(true);
+    });
+
+    it('treats each brace alternative as a glob, nesting included', () => {
+        expect(matchesGlob('src/a.ts', '{*.ts,*.js}')).toBe(true);
+        expect(matchesGlob('src/a.js', '*.{ts,js}')).toBe(true);
+        expect(matchesGlob('src/a.css', '*.{ts,js}')).toBe(false);
+        expect(matchesGlob('src/b/d/x.ts', 'src/{a,b/{c,d}}/*.ts')).toBe(true);
+        expect(matchesGlob('src/b/e/x.ts', 'src/{a,b/{c,d}}/*.ts')).toBe(false);
+    });
+
+    it('takes regex characters and unclosed brackets literally', () => {
+        expect(matchesGlob('a+b(1).txt', 'a+b(1).txt')).toBe(true);
+        expect(matchesGlob('axb.txt', 'a.b.txt')).toBe(false);
+        expect(matchesGlob('a[b', 'a[b')).toBe(true);
+        expect(matchesGlob('a{b', 'a{b')).toBe(true);
+    });
+
+    it('matches dotfiles like any other name', () => {
+        expect(matchesGlob('.env.local', '.env*')).toBe(true);
+        expect(matchesGlob('config/.env', '.env*')).toBe(true);
+    });
+});
+
+describe('matchesAny', () => {
+    it('ignores blank globs', () => {
+        expect(matchesAny('a.ts', ['', '  '])).toBe(false);
+        expect(matchesAny('a.ts', ['', '*.ts'])).toBe(true);
+    });
+});
+
+describe('compileGlobs', () => {
+    it('matches a path against any of the globs', () => {
+        const matches = compileGlobs(['*.md', 'docs/**']);
+        expect(matches('README.md')).toBe(true);
+        expect(matches('docs/guide/intro.html')).toBe(true);
+        expect(matches('src/index.ts')).toBe(false);
+    });
+
+    it('matches nothing without globs', () => {
+        expect(compileGlobs([])('a.ts')).toBe(false);
+    });
+
+    it('names the glob that makes no valid pattern', () => {
+        expect(() => compileGlobs(['*.ts', '[z-a]'])).toThrow(/^Invalid glob "\[z-a\]": /);
+    });
+});
+
+describe('parseGlobList', () => {
+    it('splits on commas and newlines and drops blanks', () => {
+        expect(parseGlobList('*.ts, *.js\n\n  docs/** \n')).toEqual(['*.ts', '*.js', 'docs/**']);
+    });
+
+    it('keeps commas inside braces with their glob', () => {
+        expect(parseGlobList('*.{ts,tsx}, src/{a,b/{c,d}}')).toEqual(['*.{ts,tsx}', 'src/{a,b/{c,d}}']);
+    });
+});
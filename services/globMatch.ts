@@ -0,0 +1,118 @@
+/**
+ * Small glob matcher for repo-relative paths.
+ * Supports `*`, `**`, `?`, `[abc]` and `{a,b}`. Patterns without a slash match
+ * the file name at any depth (like .gitignore), and a trailing slash is ignored.
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+    const cached = cache.get(glob);
+    if (cached) return cached;
+
+    let pattern = glob.trim().replace(/\/+$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+
+    const source = translate(pattern);
+
+    // Matching a directory also matches everything below it
+    const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`);
+    cache.set(glob, regex);
+    return regex;
+}
+
+function translate(pattern: string): string {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === '*') {
+            if (pattern[i + 1] === '*') {
+                // `**/` matches zero or more directories, a bare `**` matches anything
+                if (pattern[i + 2] === '/') { source += '(?:.*/)?'; i += 2; }
+                else { source += '.*'; i += 1; }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else if (ch === '[') {
+            const end = pattern.indexOf(']', i);
+            if (end === -1) { source += '\\['; continue; }
+            source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else if (ch === '{') {
+            const end = closingBrace(pattern, i);
+            if (end === -1) { source += '\\{'; continue; }
+            // Each alternative is a glob of its own, braces included
+            source += `(?:${splitOutsideBraces(pattern.slice(i + 1, end), ',').map(translate).join('|')})`;
+            i = end;
+        } else {
+            source += escape(ch);
+        }
+    }
+    return source;
+}
+
+// Index of the brace closing the one at start, or -1 when it is never closed
+function closingBrace(pattern: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < pattern.length; i++) {
+        if (pattern[i] === '{') depth++;
+        else if (pattern[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+function splitOutsideBraces(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if (ch === '{') depth++;
+        else if (ch === '}' && depth > 0) depth--;
+        if (ch === separator && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function escape(text: string) {
+    return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+    return globToRegExp(glob).test(path);
+}
+
+export function matchesAny(path: string, globs: string[]): boolean {
+    return globs.some(glob => glob.trim() && matchesGlob(path, glob));
+}
+
+/**
+ * Compiles a list of globs once, so a pattern that makes no valid RegExp (e.g. `[z-a]`)
+ * fails up front, naming the glob, instead of on every path it is tested against.
+ */
+export function compileGlobs(globs: string[]): (path: string) => boolean {
+    const regexes = globs.filter(glob => glob.trim()).map(glob => {
+        try {
+            return globToRegExp(glob);
+        } catch (err: any) {
+            throw new Error(`Invalid glob "${glob}": ${err.message}`);
+        }
+    });
+    return path => regexes.some(regex => regex.test(path));
+}
+
+/**
+ * Splits a comma or newline separated list of globs from a text field. Commas inside
+ * braces belong to the glob, as in `*.{ts,tsx}`.
+ */
+export function parseGlobList(text: string): string[] {
+    return text.split('\n').flatMap(line => splitOutsideBraces(line, ',')).map(g => g.trim()).filter(Boolean);
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal promise wrapper around a single IndexedDB object store.
+ * Each store lives in its own database, so new stores never need a version migration.
+ * Works on the main thread and inside the git worker.
+ */
+export class IdbStore<T> {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    constructor(private readonly name: string) { }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(`git-browser-${this.name}`, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this.name);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async run<R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = fn(db.transaction(this.name, mode).objectStore(this.name));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    get(key: string): Promise<T | undefined> {
+        return this.run('readonly', store => store.get(key));
+    }
+
+    async put(key: string, value: T): Promise<void> {
+        await this.run('readwrite', store => store.put(value, key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.run('readwrite', store => store.delete(key));
+    }
+
+    async keys(): Promise<string[]> {
+        return (await this.run('readonly', store => store.getAllKeys())).map(String);
+    }
+
+    async clear(): Promise<void> {
+        await this.run('readwrite', store => store.clear());
+    }
+}
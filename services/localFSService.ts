@@ -4,9 +4,64 @@
  * Implements a Node.js-compatible fs interface using the browser's File System Access API.
  */
 
+// isomorphic-git tells a missing file from a real failure by its Node error code
+const ERROR_CODES: Record<string, string> = {
+    NotFoundError: 'ENOENT',
+    TypeMismatchError: 'ENOTDIR',
+    InvalidModificationError: 'ENOTEMPTY',
+    NotAllowedError: 'EACCES',
+};
+
+// The git index of the checkout, relative to the folder this service is rooted at
+const INDEX_PATH = /(^|\/)\.git\/index$/;
+
+// The File System Access API has no ctime, inode or owner; git's index only needs them to be stable
+function fileStats(isFile: boolean, size: number, mtimeMs: number) {
+    return {
+        isFile: () => isFile,
+        isDirectory: () => !isFile,
+        isSymbolicLink: () => false,
+        size,
+        mtimeMs,
+        ctimeMs: mtimeMs,
+        dev: 0,
+        ino: 0,
+        uid: 0,
+        gid: 0,
+        type: isFile ? 'file' : 'dir',
+        mode: isFile ? 0o100644 : 0o40755,
+    };
+}
+
+function fsError(err: any, syscall: string, path: string) {
+    const code = ERROR_CODES[err?.name] || 'EIO';
+    const error: any = new Error(`${code}: ${err?.message || 'unknown error'}, ${syscall} '${path}'`);
+    error.code = code;
+    return error;
+}
+
 export class LocalFSService {
     private root: FileSystemDirectoryHandle | null = null;
 
+    /**
+     * isomorphic-git rewrites the index whenever its stat cache disagrees with the files, which
+     * it always does for a checkout desktop git indexed: these stats have no inode or owner.
+     * A read-only instance keeps that rewrite here instead of on disk, so the next status finds
+     * the cache current rather than hashing every file again. It is dropped as soon as desktop
+     * git changes the real index (base is that file's lastModified when the copy was made).
+     */
+    private indexOverlay = new Map<string, { data: Uint8Array; mtimeMs: number; base: number }>();
+
+    // A read-only instance refuses every write, for browsing a checkout that belongs to desktop git
+    constructor(private readonly readOnly = false) { }
+
+    private assertWritable(syscall: string, path: string) {
+        if (!this.readOnly) return;
+        const error: any = new Error(`EROFS: read-only folder, ${syscall} '${path}'`);
+        error.code = 'EROFS';
+        throw error;
+    }
+
     async setRoot(handle: FileSystemDirectoryHandle) {
         this.root = handle;
     }
@@ -15,6 +70,22 @@ export class LocalFSService {
         return this.root !== null;
     }
 
+    private async realFile(path: string): Promise<File | null> {
+        try {
+            return await (await this.getHandle(path, { type: 'file' }) as FileSystemFileHandle).getFile();
+        } catch (e) {
+            return null;
+        }
+    }
+
+    private async overlayFor(path: string) {
+        const overlay = this.indexOverlay.get(path);
+        if (!overlay) return null;
+        if ((await this.realFile(path))?.lastModified === overlay.base) return overlay;
+        this.indexOverlay.delete(path);
+        return null;
+    }
+
     private async getHandle(path: string, options: { create?: boolean; type?: 'file' | 'dir' } = {}): Promise<FileSystemFileHandle | FileSystemDirectoryHandle> {
         if (!this.root) throw new Error("Local FS root not set");
 
@@ -48,10 +119,19 @@ export class LocalFSService {
     // Promise-based FS implementation for isomorphic-git
     promises = {
         readFile: async (path: string, options?: any): Promise<string | Uint8Array> => {
-            const handle = await this.getHandle(path, { type: 'file' }) as FileSystemFileHandle;
-            const file = await handle.getFile();
-            const buffer = await file.arrayBuffer();
-            const uint8 = new Uint8Array(buffer);
+            let uint8: Uint8Array;
+            const overlay = await this.overlayFor(path);
+            try {
+                if (overlay) {
+                    uint8 = overlay.data;
+                } else {
+                    const handle = await this.getHandle(path, { type: 'file' }) as FileSystemFileHandle;
+                    const file = await handle.getFile();
+                    uint8 = new Uint8Array(await file.arrayBuffer());
+                }
+            } catch (e) {
+                throw fsError(e, 'open', path);
+            }
             if (options === 'utf8' || (options && options.encoding === 'utf8')) {
                 return new TextDecoder().decode(uint8);
             }
@@ -59,28 +139,52 @@ export class LocalFSService {
         },
 
         writeFile: async (path: string, data: string | Uint8Array, options?: any): Promise<void> => {
-            const handle = await this.getHandle(path, { create: true, type: 'file' }) as FileSystemFileHandle;
-            const writable = await handle.createWritable();
-            // Ensure we pass a compatible type to write()
-            await writable.write(data as any);
-            await writable.close();
+            // isomorphic-git refreshes the index's stat cache while computing status; that write is
+            // only an optimisation, so it is kept in memory rather than failing the read
+            if (this.readOnly && INDEX_PATH.test(path)) {
+                const real = await this.realFile(path);
+                const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data.slice();
+                this.indexOverlay.set(path, { data: bytes, mtimeMs: Date.now(), base: real?.lastModified ?? 0 });
+                return;
+            }
+            this.assertWritable('open', path);
+            try {
+                const handle = await this.getHandle(path, { create: true, type: 'file' }) as FileSystemFileHandle;
+                const writable = await handle.createWritable();
+                // Ensure we pass a compatible type to write()
+                await writable.write(data as any);
+                await writable.close();
+            } catch (e) {
+                throw fsError(e, 'open', path);
+            }
         },
 
         mkdir: async (path: string): Promise<void> => {
-            await this.getHandle(path, { create: true, type: 'dir' });
+            this.assertWritable('mkdir', path);
+            try {
+                await this.getHandle(path, { create: true, type: 'dir' });
+            } catch (e) {
+                throw fsError(e, 'mkdir', path);
+            }
         },
 
         readdir: async (path: string): Promise<string[]> => {
-            const handle = await this.getHandle(path, { type: 'dir' }) as FileSystemDirectoryHandle;
-            const result: string[] = [];
-            // @ts-ignore - keys() exists on FileSystemDirectoryHandle
-            for await (const key of handle.keys()) {
-                result.push(key);
+            try {
+                const handle = await this.getHandle(path, { type: 'dir' }) as FileSystemDirectoryHandle;
+                const result: string[] = [];
+                // @ts-ignore - keys() exists on FileSystemDirectoryHandle
+                for await (const key of handle.keys()) {
+                    result.push(key);
+                }
+                return result;
+            } catch (e) {
+                throw fsError(e, 'scandir', path);
             }
-            return result;
         },
 
         stat: async (path: string): Promise<any> => {
+            const overlay = await this.overlayFor(path);
+            if (overlay) return fileStats(true, overlay.data.length, overlay.mtimeMs);
             try {
                 const handle = await this.getHandle(path);
                 const isFile = handle.kind === 'file';
@@ -94,15 +198,7 @@ export class LocalFSService {
                     mtimeMs = file.lastModified;
                 }
 
-                return {
-                    isFile: () => isFile,
-                    isDirectory: () => !isFile,
-                    isSymbolicLink: () => false,
-                    size,
-                    mtimeMs,
-                    type: isFile ? 'file' : 'dir',
-                    mode: isFile ? 0o644 : 0o755,
-                };
+                return fileStats(isFile, size, mtimeMs);
             } catch (e) {
                 const error: any = new Error(`ENOENT: no such file or directory, stat '${path}'`);
                 error.code = 'ENOENT';
@@ -111,24 +207,36 @@ export class LocalFSService {
         },
 
         unlink: async (path: string): Promise<void> => {
-            const parts = path.split('/');
-            const name = parts.pop()!;
-            const parentPath = parts.join('/');
-            const parent = await this.getHandle(parentPath || '/', { type: 'dir' }) as FileSystemDirectoryHandle;
-            await parent.removeEntry(name);
+            this.assertWritable('unlink', path);
+            try {
+                const parts = path.split('/');
+                const name = parts.pop()!;
+                const parentPath = parts.join('/');
+                const parent = await this.getHandle(parentPath || '/', { type: 'dir' }) as FileSystemDirectoryHandle;
+                await parent.removeEntry(name);
+            } catch (e) {
+                throw fsError(e, 'unlink', path);
+            }
         },
 
+        // Like Node, only removes empty directories: git relies on ENOTEMPTY to keep untracked files
         rmdir: async (path: string): Promise<void> => {
-            const parts = path.split('/');
-            const name = parts.pop()!;
-            const parentPath = parts.join('/');
-            const parent = await this.getHandle(parentPath || '/', { type: 'dir' }) as FileSystemDirectoryHandle;
-            await parent.removeEntry(name, { recursive: true });
+            this.assertWritable('rmdir', path);
+            try {
+                const parts = path.split('/');
+                const name = parts.pop()!;
+                const parentPath = parts.join('/');
+                const parent = await this.getHandle(parentPath || '/', { type: 'dir' }) as FileSystemDirectoryHandle;
+                await parent.removeEntry(name);
+            } catch (e) {
+                throw fsError(e, 'rmdir', path);
+            }
         },
 
         lstat: async (path: string) => this.promises.stat(path),
         readlink: async () => { throw new Error("Symlinks not supported"); },
         symlink: async () => { throw new Error("Symlinks not supported"); },
+        rename: async () => { throw new Error("Rename not supported"); },
         chmod: async () => { }, // No-op
     };
 
@@ -0,0 +1,98 @@
+/**
+ * The promise-based fs API used by isomorphic-git and the git worker.
+ * lightning-fs and LocalFSService both provide it.
+ */
+export interface PromiseFs {
+    readFile(path: string, options?: any): Promise<Uint8Array | string>;
+    writeFile(path: string, data: Uint8Array | string, options?: any): Promise<void>;
+    mkdir(path: string, options?: any): Promise<void>;
+    rmdir(path: string, options?: any): Promise<void>;
+    unlink(path: string, options?: any): Promise<void>;
+    readdir(path: string, options?: any): Promise<string[]>;
+    stat(path: string, options?: any): Promise<any>;
+    lstat(path: string, options?: any): Promise<any>;
+    readlink(path: string, options?: any): Promise<string>;
+    symlink(target: string, path: string): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+}
+
+/**
+ * Routes paths under a mount point to another file system and everything else to the base
+ * one, like mounting a drive. Lets the worker keep one `fs` for isomorphic-git while some
+ * repository directories live on disk instead of in IndexedDB.
+ */
+export class MountedFS {
+    private mounts = new Map<string, PromiseFs>();
+
+    constructor(private base: PromiseFs) { }
+
+    mount(dir: string, fs: PromiseFs) {
+        this.mounts.set(dir, fs);
+    }
+
+    unmount(dir: string) {
+        this.mounts.delete(dir);
+    }
+
+    isMounted(dir: string) {
+        return this.mounts.has(dir);
+    }
+
+    private resolve(path: string): [PromiseFs, string] {
+        for (const [dir, fs] of this.mounts) {
+            if (path === dir) return [fs, '/'];
+            if (path.startsWith(`${dir}/`)) return [fs, path.slice(dir.length)];
+        }
+        return [this.base, path];
+    }
+
+    // Every method is async so isomorphic-git recognises this as a promise fs
+    promises: PromiseFs = {
+        readFile: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.readFile(p, options);
+        },
+        writeFile: async (path, data, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.writeFile(p, data, options);
+        },
+        mkdir: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.mkdir(p, options);
+        },
+        rmdir: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.rmdir(p, options);
+        },
+        unlink: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.unlink(p, options);
+        },
+        readdir: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.readdir(p, options);
+        },
+        stat: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.stat(p, options);
+        },
+        lstat: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.lstat(p, options);
+        },
+        readlink: async (path, options) => {
+            const [fs, p] = this.resolve(path);
+            return fs.readlink(p, options);
+        },
+        symlink: async (target, path) => {
+            const [fs, p] = this.resolve(path);
+            return fs.symlink(target, p);
+        },
+        rename: async (oldPath, newPath) => {
+            const [fs, from] = this.resolve(oldPath);
+            const [toFs, to] = this.resolve(newPath);
+            if (fs !== toFs) throw new Error(`Cannot move ${oldPath} to another file system`);
+            return fs.rename(from, to);
+        },
+    };
+}
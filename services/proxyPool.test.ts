@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { normalizeProxy, ProxyPool } from './proxyPool';
+
+const BASE = 'https://localhost:5173/';
+
+describe('normalizeProxy', () => {
+    it('resolves relative endpoints against the app and drops trailing slashes', () => {
+        expect(normalizeProxy(' /cors-proxy/ ', BASE)).toBe('https://localhost:5173/cors-proxy');
+        expect(normalizeProxy('https://cors.example.com//', BASE)).toBe('https://cors.example.com');
+    });
+});
+
+describe('ProxyPool', () => {
+    let pool: ProxyPool;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        pool = new ProxyPool(BASE);
+        pool.setEndpoints(['https://a.example', 'https://b.example/', '/cors-proxy']);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('hands out the first endpoint while it is up', () => {
+        expect(pool.current()).toBe('https://a.example');
+    });
+
+    it('finds the proxy a request goes through', () => {
+        expect(pool.owner('https://b.example/github.com/x/y.git/info/refs')).toBe('https://b.example');
+        expect(pool.owner('https://github.com/x/y.git/info/refs')).toBeUndefined();
+        // A prefix of the host alone is not the proxy
+        expect(pool.owner('https://a.example.org/github.com/x')).toBeUndefined();
+    });
+
+    it('repeats a failed request through the next proxy and skips the failed one for a minute', () => {
+        const url = 'https://a.example/github.com/x/y.git/info/refs?service=git-upload-pack';
+        expect(pool.failover(url)).toBe('https://b.example/github.com/x/y.git/info/refs?service=git-upload-pack');
+        expect(pool.current()).toBe('https://b.example');
+        vi.advanceTimersByTime(60_000);
+        expect(pool.current()).toBe('https://a.example');
+    });
+
+    it('runs out of proxies, then falls back to the first one', () => {
+        expect(pool.failover('https://a.example/h/r')).toBe('https://b.example/h/r');
+        expect(pool.failover('https://b.example/h/r')).toBe('https://localhost:5173/cors-proxy/h/r');
+        expect(pool.failover('https://localhost:5173/cors-proxy/h/r')).toBeNull();
+        expect(pool.current()).toBe('https://a.example');
+    });
+
+    it('does not fail over requests that bypass the proxies', () => {
+        expect(pool.failover('https://github.com/x/y.git/info/refs')).toBeNull();
+        expect(pool.current()).toBe('https://a.example');
+    });
+
+    it('forgets which proxies were down when the list changes', () => {
+        pool.markDown('https://a.example');
+        pool.setEndpoints(['https://a.example']);
+        expect(pool.current()).toBe('https://a.example');
+    });
+
+    it('marks unreachable proxies down and reachable ones up when checked', async () => {
+        pool.markDown('https://b.example');
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+            if (url.startsWith('https://a.example')) throw new TypeError('Failed to fetch');
+            return new Response(null, { status: 404 });
+        }));
+        const health = await pool.check();
+        expect(health.map(h => [h.url, h.ok])).toEqual([
+            ['https://a.example', false],
+            ['https://b.example', true],
+            ['https://localhost:5173/cors-proxy', true],
+        ]);
+        expect(health[0].error).toBe('Failed to fetch');
+        expect(pool.current()).toBe('https://b.example');
+    });
+});
@@ -0,0 +1,73 @@
+import type { ProxyHealth } from '../types';
+
+// A proxy that failed is skipped for this long before it gets another chance
+const DOWN_FOR_MS = 60_000;
+const HEALTH_TIMEOUT_MS = 5_000;
+
+// isomorphic-git appends '/' and the host to the proxy, so a trailing slash would double up
+export function normalizeProxy(endpoint: string, base: string): string {
+    return new URL(endpoint.trim(), base).href.replace(/\/+$/, '');
+}
+
+/**
+ * The CORS proxies the user configured, in order of preference. The first one that
+ * isn't marked down is handed to isomorphic-git; when it fails, the worker's http
+ * client marks it down and repeats the request through the next one.
+ */
+export class ProxyPool {
+    private endpoints: string[] = [];
+    private downUntil = new Map<string, number>();
+
+    constructor(private readonly base: string) { }
+
+    setEndpoints(endpoints: string[]) {
+        this.endpoints = endpoints.map(e => normalizeProxy(e, this.base));
+        this.downUntil.clear();
+    }
+
+    private isUp(endpoint: string) {
+        return (this.downUntil.get(endpoint) ?? 0) <= Date.now();
+    }
+
+    // Falls back to the first endpoint when all of them are down, so the user gets its error
+    current(): string | undefined {
+        return this.endpoints.find(e => this.isUp(e)) ?? this.endpoints[0];
+    }
+
+    // The configured proxy a request URL goes through, if any
+    owner(url: string): string | undefined {
+        return this.endpoints.find(e => url.startsWith(`${e}/`));
+    }
+
+    markDown(endpoint: string) {
+        this.downUntil.set(endpoint, Date.now() + DOWN_FOR_MS);
+    }
+
+    // The same request through the next proxy that is up, or null when none is left
+    failover(url: string): string | null {
+        const from = this.owner(url);
+        if (!from) return null;
+        this.markDown(from);
+        const to = this.endpoints.find(e => e !== from && this.isUp(e));
+        return to ? to + url.slice(from.length) : null;
+    }
+
+    /**
+     * Probes every endpoint. Any answer counts as healthy: proxies don't share a health
+     * route and the probe is opaque (no-cors), so only unreachable ones are caught.
+     */
+    async check(): Promise<ProxyHealth[]> {
+        return Promise.all(this.endpoints.map(async (url): Promise<ProxyHealth> => {
+            const started = Date.now();
+            try {
+                await fetch(`${url}/`, { mode: 'no-cors', cache: 'no-store', signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+                this.downUntil.delete(url);
+                return { url, ok: true, latencyMs: Date.now() - started, checkedAt: Date.now() };
+            } catch (err: any) {
+                this.markDown(url);
+                const error = err?.name === 'TimeoutError' ? `No answer within ${HEALTH_TIMEOUT_MS / 1000}s` : err?.message || 'Unreachable';
+                return { url, ok: false, latencyMs: null, error, checkedAt: Date.now() };
+            }
+        }));
+    }
+}
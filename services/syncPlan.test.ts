@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { classifyImport, classifyLocalDeletion, compileSyncRules, forgetSynced, planCleanupEntry, planMirrorEntry, recordSynced, SyncRecord, unchangedSinceSync } from './syncPlan';
+
+describe('sync manifest', () => {
+    const local = { size: 10, lastModified: 1000 };
+    const synced = (): SyncRecord => {
+        const record: SyncRecord = { files: {}, manifest: {} };
+        recordSynced(record, 'a.txt', 'h1', 'oid1', local);
+        return record;
+    };
+
+    it('knows a file unchanged while the blob id and the local stat still match', () => {
+        expect(unchangedSinceSync(synced(), 'a.txt', 'oid1', { ...local })).toBe(true);
+    });
+
+    it('sees a change to either copy', () => {
+        expect(unchangedSinceSync(synced(), 'a.txt', 'oid2', local)).toBe(false);
+        expect(unchangedSinceSync(synced(), 'a.txt', 'oid1', { ...local, lastModified: 2000 })).toBe(false);
+        expect(unchangedSinceSync(synced(), 'a.txt', 'oid1', { ...local, size: 11 })).toBe(false);
+    });
+
+    it('sees a copy that is gone', () => {
+        expect(unchangedSinceSync(synced(), 'a.txt', undefined, local)).toBe(false);
+        expect(unchangedSinceSync(synced(), 'a.txt', 'oid1', null)).toBe(false);
+    });
+
+    it('knows nothing about paths never synced', () => {
+        expect(unchangedSinceSync(synced(), 'b.txt', 'oid1', local)).toBe(false);
+    });
+
+    it('keeps only the hash when one side has no fingerprint', () => {
+        const record = synced();
+        recordSynced(record, 'a.txt', 'h2', undefined, local);
+        expect(record).toEqual({ files: { 'a.txt': 'h2' }, manifest: {} });
+    });
+
+    it('forgets both the hash and the fingerprint', () => {
+        const record = synced();
+        forgetSynced(record, 'a.txt');
+        expect(record).toEqual({ files: {}, manifest: {} });
+        expect(unchangedSinceSync(record, 'a.txt', 'oid1', local)).toBe(false);
+    });
+});
+
+describe('planMirrorEntry', () => {
+    it('creates a file missing locally', () => {
+        expect(planMirrorEntry('a.txt', 5, null, undefined)).toEqual({ path: 'a.txt', action: 'create', bytes: 5, localChanges: false });
+        // Deleted locally after a sync: writing it back loses no edit
+        expect(planMirrorEntry('a.txt', 5, null, 'h1').localChanges).toBe(false);
+    });
+
+    it('updates a local copy left as the last sync wrote it', () => {
+        expect(planMirrorEntry('a.txt', 5, 'h1', 'h1')).toEqual({ path: 'a.txt', action: 'update', bytes: 5, localChanges: false });
+    });
+
+    it('flags a local copy edited since the last sync', () => {
+        expect(planMirrorEntry('a.txt', 5, 'h2', 'h1').localChanges).toBe(true);
+    });
+
+    it('flags a local file that was never synced', () => {
+        expect(planMirrorEntry('a.txt', 5, 'h1', undefined).localChanges).toBe(true);
+    });
+});
+
+describe('planCleanupEntry', () => {
+    it('deletes a file the last sync wrote without local changes', () => {
+        expect(planCleanupEntry('old.txt', 3, 'h1', 'h1')).toEqual({ path: 'old.txt', action: 'delete', bytes: 3, localChanges: false });
+    });
+
+    it('flags local-only and locally edited files', () => {
+        expect(planCleanupEntry('notes.txt', 3, 'h1', undefined).localChanges).toBe(true);
+        expect(planCleanupEntry('old.txt', 3, 'h2', 'h1').localChanges).toBe(true);
+    });
+});
+
+describe('classifyImport', () => {
+    const plain = { skipped: false, force: false };
+
+    it('leaves files unchanged locally since the last sync to the mirror', () => {
+        expect(classifyImport('h1', 'h1', 'h2', plain)).toBe('unchanged');
+        expect(classifyImport('h1', 'h1', 'h2', { skipped: true, force: true })).toBe('unchanged');
+    });
+
+    it('adds local files the repo does not have', () => {
+        expect(classifyImport(undefined, 'h1', null, plain)).toBe('added');
+    });
+
+    it('takes local edits over a repo copy still as synced', () => {
+        expect(classifyImport('h1', 'h2', 'h1', plain)).toBe('modified');
+    });
+
+    it('reports files changed on both sides as conflicts unless forced', () => {
+        expect(classifyImport('h1', 'h2', 'h3', plain)).toBe('conflict');
+        expect(classifyImport(undefined, 'h2', 'h3', plain)).toBe('conflict');
+        expect(classifyImport('h1', 'h2', 'h3', { skipped: false, force: true })).toBe('modified');
+    });
+
+    it('never overwrites paths with unsaved editor changes, even when forced', () => {
+        expect(classifyImport('h1', 'h2', 'h1', { skipped: true, force: true })).toBe('conflict');
+        expect(classifyImport(undefined, 'h2', null, { skipped: true, force: false })).toBe('conflict');
+    });
+});
+
+describe('classifyLocalDeletion', () => {
+    it('deletes the repo copy while it is still as synced', () => {
+        expect(classifyLocalDeletion('h1', 'h1', { skipped: false, force: false })).toBe('deleted');
+    });
+
+    it('reports a repo copy edited since the sync as a conflict unless forced', () => {
+        expect(classifyLocalDeletion('h1', 'h2', { skipped: false, force: false })).toBe('conflict');
+        expect(classifyLocalDeletion('h1', 'h2', { skipped: false, force: true })).toBe('deleted');
+    });
+
+    it('keeps paths with unsaved editor changes', () => {
+        expect(classifyLocalDeletion('h1', 'h1', { skipped: true, force: true })).toBe('conflict');
+    });
+});
+
+describe('compileSyncRules', () => {
+    const rules = { include: [], exclude: [], protectedPaths: ['.env*', 'node_modules'], useGitignore: true };
+
+    it('lets everything but protected paths through by default', () => {
+        const { passes, isProtected } = compileSyncRules(rules);
+        expect(passes('src/index.ts', false)).toBe(true);
+        expect(passes('.env.local', false)).toBe(false);
+        expect(passes('web/node_modules', true)).toBe(false);
+        expect(passes('node_modules/pkg/index.js', false)).toBe(false);
+        expect(isProtected('config/.env')).toBe(true);
+        expect(isProtected('src/env.ts')).toBe(false);
+    });
+
+    it('leaves out excluded files and directories', () => {
+        const { passes } = compileSyncRules({ ...rules, exclude: ['dist', '*.log'] });
+        expect(passes('dist', true)).toBe(false);
+        expect(passes('dist/app.js', false)).toBe(false);
+        expect(passes('logs/debug.log', false)).toBe(false);
+        expect(passes('src/app.ts', false)).toBe(true);
+    });
+
+    it('holds only files to the include list', () => {
+        const { passes } = compileSyncRules({ ...rules, include: ['src/**/*.ts'] });
+        expect(passes('docs', true)).toBe(true);
+        expect(passes('src/a/b.ts', false)).toBe(true);
+        expect(passes('docs/readme.md', false)).toBe(false);
+    });
+
+    it('lets exclusion and protection win over inclusion', () => {
+        const { passes } = compileSyncRules({ ...rules, include: ['**'], exclude: ['src/generated'] });
+        expect(passes('src/generated/api.ts', false)).toBe(false);
+        expect(passes('.env', false)).toBe(false);
+    });
+
+    it('protects nothing with an empty list', () => {
+        const { passes, isProtected } = compileSyncRules({ ...rules, protectedPaths: [] });
+        expect(passes('.env', false)).toBe(true);
+        expect(isProtected('.env')).toBe(false);
+    });
+
+    it('fails on a glob that does not compile', () => {
+        expect(() => compileSyncRules({ ...rules, exclude: ['[z-a]'] })).toThrow(/Invalid glob "\[z-a\]"/);
+    });
+});
@@ -0,0 +1,108 @@
+import type { SyncPlanEntry, SyncRules } from '../types';
+import { compileGlobs } from './globMatch';
+
+/**
+ * The decisions behind syncing a repository with a local folder, apart from the file access.
+ * Hashes are those of calculateHash in the worker; `synced` is the hash recorded for the path
+ * at the last sync in either direction, undefined if it was never synced.
+ */
+
+// Content hash of every file as of the last sync in either direction.
+// Telling which side changed since then is what keeps both directions from clobbering edits.
+export interface SyncRecord {
+    files: Record<string, string>;
+    // Cheap fingerprints of both sides at the last sync. While they still match, the file is
+    // known to be in sync without reading or hashing either copy.
+    manifest: Record<string, SyncManifestEntry>;
+}
+
+export interface SyncManifestEntry {
+    // Git blob id of the virtual file
+    oid: string;
+    // Stat of the local file
+    size: number;
+    lastModified: number;
+}
+
+// The part of a local File's stat the manifest keeps
+type LocalStat = Pick<File, 'size' | 'lastModified'>;
+
+export function recordSynced(record: SyncRecord, relPath: string, hash: string, oid: string | undefined, lFile: LocalStat | null) {
+    record.files[relPath] = hash;
+    if (oid && lFile) record.manifest[relPath] = { oid, size: lFile.size, lastModified: lFile.lastModified };
+    else delete record.manifest[relPath];
+}
+
+export function forgetSynced(record: SyncRecord, relPath: string) {
+    delete record.files[relPath];
+    delete record.manifest[relPath];
+}
+
+// Neither copy changed since the last sync, judged by the manifest alone
+export function unchangedSinceSync(record: SyncRecord, relPath: string, oid: string | undefined, lFile: LocalStat | null): boolean {
+    const known = record.manifest[relPath];
+    return !!known && !!lFile && relPath in record.files
+        && known.oid === oid && known.size === lFile.size && known.lastModified === lFile.lastModified;
+}
+
+// Writing the repo copy over the local file, which is missing when localHash is null.
+// A local copy that no longer matches what we last synced was edited locally.
+export function planMirrorEntry(path: string, bytes: number, localHash: string | null, synced: string | undefined): SyncPlanEntry {
+    return {
+        path,
+        action: localHash === null ? 'create' : 'update',
+        bytes,
+        localChanges: localHash !== null && synced !== localHash,
+    };
+}
+
+// Deleting a local file the repo doesn't have. Only one the last sync wrote, unedited since, is safe to lose.
+export function planCleanupEntry(path: string, bytes: number, localHash: string, synced: string | undefined): SyncPlanEntry {
+    return { path, action: 'delete', bytes, localChanges: synced !== localHash };
+}
+
+export interface ImportOptions {
+    // The path has unsaved edits in the editor, which the import must not overwrite
+    skipped: boolean;
+    // The user chose to replace the repo copy even where it changed too
+    force: boolean;
+}
+
+/**
+ * What importing a local file does to the repo copy (repoHash null when the repo has none).
+ * A file unchanged locally since the last sync is left for the mirror, which brings the repo
+ * side over; one changed on both sides is a conflict unless forced.
+ */
+export function classifyImport(synced: string | undefined, localHash: string, repoHash: string | null, { skipped, force }: ImportOptions): 'unchanged' | 'added' | 'modified' | 'conflict' {
+    if (synced === localHash) return 'unchanged';
+    if (skipped) return 'conflict';
+    if (repoHash === null) return 'added';
+    return synced === repoHash || force ? 'modified' : 'conflict';
+}
+
+// Removing the repo copy of a synced file that is gone locally; an edit to that copy makes it a conflict
+export function classifyLocalDeletion(synced: string, repoHash: string, { skipped, force }: ImportOptions): 'deleted' | 'conflict' {
+    if (skipped) return 'conflict';
+    return synced === repoHash || force ? 'deleted' : 'conflict';
+}
+
+/**
+ * The include, exclude and protected globs of the sync rules as path tests. .gitignore is left
+ * to the caller, since it takes the repository to read. Throws on a glob that doesn't compile,
+ * with the error of `compile`.
+ */
+export function compileSyncRules(rules: SyncRules, compile: (globs: string[]) => (path: string) => boolean = compileGlobs) {
+    const isExcluded = compile(rules.exclude);
+    const isIncluded = compile(rules.include);
+    const matchesProtected = compile(rules.protectedPaths);
+    const isProtected = (relPath: string) => rules.protectedPaths.length > 0 && matchesProtected(relPath);
+    return {
+        isProtected,
+        passes(relPath: string, isDir: boolean): boolean {
+            if (isProtected(relPath)) return false;
+            if (rules.exclude.length && isExcluded(relPath)) return false;
+            // A directory may still contain included files, so only files are held to the include list
+            return isDir || !rules.include.length || isIncluded(relPath);
+        },
+    };
+}
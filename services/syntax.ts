@@ -0,0 +1,64 @@
+import hljs from 'highlight.js/lib/common';
+
+// Highlighting is synchronous, so very large files are shown as plain text instead
+const MAX_HIGHLIGHT_CHARS = 500 * 1024;
+
+// Extensions and file names that aren't already highlight.js aliases
+const LANGUAGE_OVERRIDES: Record<string, string> = {
+    mjs: 'javascript',
+    cjs: 'javascript',
+    mts: 'typescript',
+    cts: 'typescript',
+    jsonc: 'json',
+    htm: 'xml',
+    svg: 'xml',
+    vue: 'xml',
+    gradle: 'kotlin',
+    makefile: 'makefile',
+    '.gitignore': 'bash',
+    '.env': 'bash',
+};
+
+export function languageForPath(path: string): string | null {
+    const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+    const ext = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1) : name;
+    const language = LANGUAGE_OVERRIDES[name] ?? LANGUAGE_OVERRIDES[ext] ?? ext;
+    return hljs.getLanguage(language) ? language : null;
+}
+
+export function isMarkdownPath(path: string): boolean {
+    return /\.(md|markdown|mdx)$/i.test(path);
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Highlights text and returns one HTML string per line. Spans that cross a line
+ * break (block comments, template strings) are closed and reopened so each line
+ * can be rendered on its own.
+ */
+export function highlightLines(text: string, path: string): string[] {
+    const language = languageForPath(path);
+    if (!language || text.length > MAX_HIGHLIGHT_CHARS) return text.split('\n').map(escapeHtml);
+
+    const html = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+    const lines: string[] = [];
+    const open: string[] = [];
+    let current = '';
+    for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+        if (token === '\n') {
+            lines.push(current + '</span>'.repeat(open.length));
+            current = open.join('');
+        } else if (token.startsWith('<span')) {
+            open.push(token);
+            current += token;
+        } else if (token === '</span>') {
+            open.pop();
+            current += token;
+        } else {
+            current += token;
+        }
+    }
+    lines.push(current);
+    return lines;
+}
@@ -0,0 +1,166 @@
+import type {
+    FileContent, FileDiff, FileNode, FileStatus, FuzzyMatch, GitAuthor, GitCredential, ImportResult, LocalRefs, LogPage,
+    OperationProgress, ProxyHealth, ProxySettings, RepoMeta, RevertResult, SearchMatch, SearchOptions, SearchSummary, ServerRefs, SyncJournalSummary,
+    SyncPlan, SyncPlanEntry, SyncResult, SyncRules
+} from '../types';
+
+/**
+ * Messages between GitService (main thread) and gitWorker.ts.
+ *
+ * Bump PROTOCOL_VERSION whenever a request or reply changes shape. The worker announces
+ * its version in the 'ready' message and GitService refuses to talk to a different one,
+ * which happens when a cached worker script outlives a deploy.
+ */
+export const PROTOCOL_VERSION = 5;
+
+interface RepoRef {
+    repoId: string;
+}
+
+interface FetchPayload extends RepoRef {
+    url: string;
+    ref: string;
+    useProxy: boolean;
+}
+
+// Payload and success result of every action the worker handles
+export interface WorkerActions {
+    init: { payload: void; result: void };
+    setLocalRoot: { payload: { handle: FileSystemDirectoryHandle }; result: void };
+    listRepos: { payload: void; result: RepoMeta[] };
+    addRepo: { payload: { url: string; ref: string; useProxy: boolean; storage: RepoMeta['storage'] }; result: RepoMeta };
+    openLocalRepo: { payload: { handle: FileSystemDirectoryHandle }; result: RepoMeta };
+    removeRepo: { payload: RepoRef; result: void };
+    clone: { payload: FetchPayload; result: RepoMeta };
+    pull: { payload: FetchPayload; result: RepoMeta };
+    log: { payload: RepoRef & { offset: number; limit: number }; result: LogPage };
+    listServerRefs: { payload: { url: string; useProxy: boolean }; result: ServerRefs };
+    listRefs: { payload: RepoRef; result: LocalRefs };
+    checkout: { payload: RepoRef & { ref: string }; result: RepoMeta };
+    createBranch: { payload: RepoRef & { name: string; checkout: boolean; startPoint?: string }; result: RepoMeta };
+    status: { payload: RepoRef; result: FileStatus[] };
+    stage: { payload: RepoRef & { paths: string[] }; result: FileStatus[] };
+    unstage: { payload: RepoRef & { paths: string[] }; result: FileStatus[] };
+    getAuthor: { payload: RepoRef; result: GitAuthor };
+    commit: { payload: RepoRef & { message: string; author: GitAuthor }; result: string };
+    push: { payload: RepoRef; result: void };
+    diff: { payload: RepoRef & { from: string | null; to: string }; result: FileDiff[] };
+    getFileTree: { payload: RepoRef; result: FileNode[] };
+    readFile: { payload: RepoRef & { path: string; encoding?: string }; result: FileContent };
+    writeFile: { payload: RepoRef & { path: string; content: string }; result: void };
+    findFiles: { payload: RepoRef & { query: string; limit: number }; result: FuzzyMatch[] };
+    search: { payload: RepoRef & { options: SearchOptions }; result: SearchSummary };
+    getSyncRules: { payload: RepoRef; result: SyncRules };
+    setSyncRules: { payload: RepoRef & { rules: SyncRules }; result: SyncRules };
+    planSync: { payload: RepoRef & { paths: string[] }; result: SyncPlan };
+    syncToLocal: { payload: RepoRef & { entries: SyncPlanEntry[] }; result: SyncResult };
+    getLastSync: { payload: RepoRef; result: SyncJournalSummary | null };
+    revertLastSync: { payload: RepoRef; result: RevertResult };
+    // paths limits the import to those files; skip lists files to leave alone and report as conflicts
+    syncFromLocal: { payload: RepoRef & { path: string; paths?: string[]; force: boolean; skip: string[] }; result: ImportResult };
+    getProxySettings: { payload: void; result: ProxySettings };
+    setProxySettings: { payload: { settings: ProxySettings }; result: ProxySettings };
+    // Checks the given endpoints, or the saved ones when there are none
+    checkProxies: { payload: { endpoints?: string[] }; result: ProxyHealth[] };
+    wipe: { payload: void; result: void };
+}
+
+export type WorkerAction = keyof WorkerActions;
+export type ActionPayload<A extends WorkerAction> = WorkerActions[A]['payload'];
+export type ActionResult<A extends WorkerAction> = WorkerActions[A]['result'];
+
+// A union with one member per action, so switching on `type` narrows `payload`
+export type WorkerRequest = { [A in WorkerAction]: { id: string; type: A; payload: ActionPayload<A> } }[WorkerAction];
+
+// Stops the long-running request targetId (see activeOperations in the worker)
+export interface CancelMessage {
+    type: 'cancel';
+    payload: { targetId: string };
+}
+
+// Server messages as text, transfer and sync progress, and search matches as they are found
+export type ProgressPayload = string | OperationProgress | { type: 'searchMatches'; matches: SearchMatch[] };
+
+export type WorkerErrorCode =
+    | 'UNKNOWN_ACTION'
+    | 'VERSION_MISMATCH'
+    | 'TIMEOUT'
+    | 'WORKER_CRASHED'
+    | 'CANCELLED'
+    | 'NOT_FOUND'
+    | 'READ_ONLY'
+    | 'NO_ACCESS'
+    | 'NO_LOCAL_ROOT'
+    | 'INVALID_REQUEST'
+    // The git server refused the credentials (401/403)
+    | 'AUTH'
+    // The server, proxy or extension bridge could not be reached
+    | 'NETWORK'
+    // The git server or a proxy answered with a 5xx, after any retries
+    | 'SERVER'
+    | 'GIT'
+    | 'FS'
+    | 'INTERNAL';
+
+export interface WorkerErrorInfo {
+    code: WorkerErrorCode;
+    message: string;
+    // The underlying isomorphic-git or file system code (e.g. 'HttpError', 'ENOENT') for GIT and FS errors
+    detail?: string;
+}
+
+export type WorkerReply =
+    | { id: string; type: 'success'; payload: unknown }
+    | { id: string; type: 'progress'; payload: ProgressPayload }
+    | { id: string; type: 'error'; payload: WorkerErrorInfo };
+
+export interface ReadyMessage {
+    type: 'ready';
+    version: number;
+}
+
+// The worker's console output, mirrored to the main thread without a request id
+export interface WorkerLogMessage {
+    type: 'progress';
+    payload: string;
+}
+
+// Requests the worker makes of the main thread. AUTH_REQUEST is answered with the same id;
+// EXTENSION_FETCH_PROXY carries a MessagePort that the main thread hands on to the extension.
+export type BridgeRequest =
+    | { id: string; type: 'AUTH_REQUEST'; payload: { url: string; failed: boolean } }
+    | { id: string; type: 'EXTENSION_FETCH_PROXY'; payload: { url: string } };
+
+export type BridgeReply = { id: string; type: 'AUTH_RESULT'; payload: GitCredential | null };
+
+/**
+ * One fetch through the extension, spoken over a MessagePort between the worker and the
+ * extension's content script. The response body arrives as numbered chunks; the extension
+ * keeps only a few unacknowledged ones in flight, and the worker acknowledges each chunk as
+ * isomorphic-git reads it, so a slow consumer slows the download instead of filling memory.
+ */
+export type BridgeStreamRequest =
+    | { type: 'request'; url: string; method?: string; headers?: Record<string, string>; body: Uint8Array | null }
+    | { type: 'ack' }
+    | { type: 'cancel' };
+
+export type BridgeStreamResponse =
+    | { type: 'head'; url: string; status: number; statusText: string; headers: Record<string, string> }
+    | { type: 'chunk'; seq: number; data: Uint8Array }
+    | { type: 'end' }
+    // refused: the bridge won't make this request at all (absent, outdated or host not approved)
+    | { type: 'error'; message: string; refused?: boolean };
+
+export type FromWorker = ReadyMessage | WorkerReply | WorkerLogMessage | BridgeRequest;
+export type ToWorker = WorkerRequest | CancelMessage | BridgeReply;
+
+/**
+ * An Error carrying a WorkerErrorCode, thrown in the worker and rebuilt by GitService
+ * from the WorkerErrorInfo in the reply.
+ */
+export function workerError(code: WorkerErrorCode, message: string, detail?: string): Error & WorkerErrorInfo {
+    const error: any = new Error(message);
+    error.code = code;
+    if (detail) error.detail = detail;
+    return error;
+}
@@ -19,3 +19,243 @@ export interface RepoState {
   error: string | null;
   useProxy: boolean;
 }
+
+export interface RepoMeta {
+  id: string;
+  name: string;
+  url: string;
+  ref: string;
+  useProxy: boolean;
+  lastFetched: number | null;
+  // 'disk' clones straight into a mapped folder; missing means the browser's own storage
+  storage?: 'browser' | 'disk';
+  // An existing checkout opened for browsing: nothing is written to it and nothing is fetched
+  readOnly?: boolean;
+}
+
+export interface FileChange {
+  path: string;
+  type: 'added' | 'modified' | 'deleted';
+}
+
+export interface CommitEntry {
+  oid: string;
+  message: string;
+  author: {
+    name: string;
+    email: string;
+    timestamp: number;
+  };
+  parents: string[];
+  // null when the parent commit lies beyond the shallow boundary and cannot be compared
+  files: FileChange[] | null;
+}
+
+export interface LogPage {
+  commits: CommitEntry[];
+  hasMore: boolean;
+  deepened: boolean;
+}
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'del';
+  text: string;
+  oldNo?: number;
+  newNo?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff extends FileChange {
+  binary: boolean;
+  // Set when the file is too large to diff line by line
+  tooLarge: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface ServerRefs {
+  head: string | null;
+  branches: string[];
+  tags: string[];
+}
+
+export interface LocalRefs {
+  current: string | null;
+  branches: string[];
+  remoteBranches: string[];
+  tags: string[];
+}
+
+export interface GitCredential {
+  username: string;
+  token: string;
+}
+
+export interface AuthRequest {
+  url: string;
+  host: string;
+  // True when previously supplied credentials were rejected by the server
+  failed: boolean;
+}
+
+export interface FileStatus {
+  path: string;
+  kind: 'added' | 'modified' | 'deleted' | 'untracked';
+  // Index differs from HEAD for this path
+  staged: boolean;
+  // Working tree differs from the index for this path
+  unstaged: boolean;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  include: string[];
+  exclude: string[];
+  maxResults: number;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  column: number;
+  length: number;
+  preview: string;
+}
+
+export interface SearchSummary {
+  matches: number;
+  filesSearched: number;
+  truncated: boolean;
+}
+
+export interface FuzzyMatch {
+  path: string;
+  score: number;
+  // Indexes into path of the matched characters, for highlighting
+  positions: number[];
+}
+
+export interface FileContent {
+  path: string;
+  size: number;
+  mime: string;
+  kind: 'text' | 'image' | 'binary';
+  // TextDecoder label used for text, null for binaries
+  encoding: string | null;
+  // Null when the file is too large to load at all
+  bytes: Uint8Array | null;
+  text: string | null;
+  // Text was cut off at the display limit
+  truncated: boolean;
+  tooLarge: boolean;
+}
+
+export interface SyncPlanEntry {
+  path: string;
+  action: 'create' | 'update' | 'delete';
+  // Bytes written for creates and updates, bytes removed for deletes
+  bytes: number;
+  // The local copy has edits (or is a local-only file) the repo doesn't know about
+  localChanges: boolean;
+}
+
+export interface SyncPlan {
+  repoId: string;
+  entries: SyncPlanEntry[];
+  unchanged: number;
+  // Unchanged files recognised from the sync manifest without reading or hashing them
+  skippedHashes: number;
+}
+
+export interface SyncResult {
+  written: number;
+  removed: number;
+  // Approved entries whose local file changed after planning, left untouched
+  skipped: string[];
+}
+
+export interface ImportResult {
+  imported: FileChange[];
+  unchanged: number;
+  // Files changed both locally and in the repo since the last sync
+  conflicts: string[];
+  // Unchanged files recognised from the sync manifest without reading or hashing them
+  skippedHashes: number;
+}
+
+export interface SyncRules {
+  // Globs limiting which repo paths are mirrored; empty means everything
+  include: string[];
+  exclude: string[];
+  // Local paths the mirror never writes or deletes
+  protectedPaths: string[];
+  // Leave paths matched by the repo's .gitignore files alone
+  useGitignore: boolean;
+}
+
+export interface SyncJournalSummary {
+  id: string;
+  createdAt: number;
+  // Number of local files the sync wrote or deleted
+  files: number;
+}
+
+export interface RevertResult {
+  restored: number;
+  // Files changed locally after the sync, left as they are
+  skipped: string[];
+}
+
+// Progress of a long-running worker action (clone, pull, sync), posted as it runs
+export interface OperationProgress {
+  type: 'progress';
+  // isomorphic-git's phase (e.g. 'Receiving objects') or the sync step
+  phase: string;
+  loaded: number;
+  // Null while the size of the phase is unknown
+  total: number | null;
+  // Bytes downloaded or written so far, across all phases
+  bytes: number;
+  // Bytes per second, null until there is enough to measure
+  rate: number | null;
+  // File being processed, for syncs
+  path?: string;
+}
+
+// Runs a worker action from a panel with the status bar's progress bar and Cancel button.
+// The signal is missing when another action already has them.
+export type CancellableRunner = <T>(run: (signal: AbortSignal | undefined, onProgress: (update: string | OperationProgress) => void) => Promise<T>) => Promise<T>;
+
+export interface ProxySettings {
+  // CORS proxy base URLs, tried in this order; relative ones are on this app's own server
+  endpoints: string[];
+  // Extra attempts for a clone, fetch or ref listing that fails on the network or with a 5xx; pushes are never repeated
+  retries: number;
+}
+
+export interface ProxyHealth {
+  url: string;
+  ok: boolean;
+  latencyMs: number | null;
+  error?: string;
+  checkedAt: number;
+}
+
+export interface ExtensionStatus {
+  // 'outdated': installed, but speaking a different bridge protocol than this app
+  state: 'present' | 'absent' | 'outdated';
+  version: string | null;
+}
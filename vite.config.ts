@@ -1,8 +1,25 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 import basicSsl from '@vitejs/plugin-basic-ssl';
 import { nodePolyfills } from 'vite-plugin-node-polyfills';
+import { createCorsProxy } from './scripts/cors-proxy.mjs';
+
+// Serves scripts/cors-proxy.mjs at /cors-proxy during development and preview,
+// so the proxy can be set to '/cors-proxy' without running anything else.
+// Without an allowOrigin it only answers the app served alongside it.
+function corsProxy(): Plugin {
+  const proxy = createCorsProxy();
+  return {
+    name: 'git-cors-proxy',
+    configureServer(server) {
+      server.middlewares.use('/cors-proxy', proxy);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/cors-proxy', proxy);
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -11,6 +28,7 @@ export default defineConfig({
     tailwindcss(),
     basicSsl(),
     nodePolyfills(),
+    corsProxy(),
   ],
   server: {
     https: {},
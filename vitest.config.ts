@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// The tests cover the pure logic in services/, so they run in Node without the app's plugins
+export default defineConfig({
+  test: {
+    include: ['services/**/*.test.ts'],
+    environment: 'node',
+  },
+});